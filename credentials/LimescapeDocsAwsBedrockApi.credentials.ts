@@ -0,0 +1,44 @@
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class LimescapeDocsAwsBedrockApi implements ICredentialType {
+    name = 'limescapeDocsAwsBedrockApi';
+    displayName = 'Limescape Docs AWS Bedrock API';
+    documentationUrl = 'https://dev.azure.com/truelime/Team%20AI/_git/limescape-ai-limescape-docs';
+    properties: INodeProperties[] = [
+        {
+            displayName: 'AWS Bedrock Region',
+            name: 'bedrockRegion',
+            required: true,
+            type: 'string',
+            default: '',
+            placeholder: 'us-east-1',
+            description: 'AWS region for Bedrock (maps to credentials.region)',
+        },
+        {
+            displayName: 'AWS Access Key ID (Optional)',
+            name: 'bedrockAccessKeyId',
+            type: 'string',
+            typeOptions: { password: true },
+            default: '',
+            description: 'AWS Access Key ID for Bedrock (maps to credentials.accessKeyId)',
+        },
+        {
+            displayName: 'AWS Secret Access Key (Optional)',
+            name: 'bedrockSecretAccessKey',
+            type: 'string',
+            typeOptions: { password: true },
+            default: '',
+            description:
+                'AWS Secret Access Key for Bedrock (maps to credentials.secretAccessKey)',
+        },
+        {
+            displayName: 'AWS Session Token (Optional)',
+            name: 'bedrockSessionToken',
+            type: 'string',
+            typeOptions: { password: true },
+            default: '',
+            description:
+                'Optional AWS Session Token for temporary Bedrock credentials (maps to credentials.sessionToken)',
+        },
+    ];
+}
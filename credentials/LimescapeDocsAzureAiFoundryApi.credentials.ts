@@ -0,0 +1,29 @@
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class LimescapeDocsAzureAiFoundryApi implements ICredentialType {
+    name = 'limescapeDocsAzureAiFoundryApi';
+    displayName = 'Limescape Docs Azure AI Foundry API';
+    documentationUrl = 'https://dev.azure.com/truelime/Team%20AI/_git/limescape-ai-limescape-docs';
+    properties: INodeProperties[] = [
+        {
+            displayName: 'Azure AI Foundry Base URL',
+            name: 'azureAifBaseUrl',
+            required: true,
+            type: 'string',
+            default: '',
+            placeholder: 'https://<deployment>.<region>.models.ai.azure.com/v1',
+            description:
+                'Base URL for Azure AI Foundry v1 (maps to credentials.baseUrl when using ModelProvider.AZURE_AIF)',
+        },
+        {
+            displayName: 'Azure AI Foundry API Key',
+            name: 'azureAifApiKey',
+            required: true,
+            type: 'string',
+            typeOptions: { password: true },
+            default: '',
+            description:
+                'API key for Azure AI Foundry v1 (maps to credentials.apiKey when using ModelProvider.AZURE_AIF)',
+        },
+    ];
+}
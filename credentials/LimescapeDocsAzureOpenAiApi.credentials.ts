@@ -0,0 +1,37 @@
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class LimescapeDocsAzureOpenAiApi implements ICredentialType {
+    name = 'limescapeDocsAzureOpenAiApi';
+    displayName = 'Limescape Docs Azure OpenAI API';
+    documentationUrl = 'https://dev.azure.com/truelime/Team%20AI/_git/limescape-ai-limescape-docs';
+    properties: INodeProperties[] = [
+        {
+            displayName: 'Azure OpenAI API Key',
+            name: 'azureApiKey',
+            required: true,
+            type: 'string',
+            typeOptions: { password: true },
+            default: '',
+            description:
+                'Your Azure OpenAI API key (maps to credentials.apiKey when using ModelProvider.AZURE)',
+        },
+        {
+            displayName: 'Azure OpenAI Endpoint',
+            name: 'azureEndpoint',
+            required: true,
+            type: 'string',
+            default: '',
+            placeholder: 'https://YOUR_RESOURCE_NAME.openai.azure.com/',
+            description: 'Your Azure OpenAI endpoint URL (maps to credentials.endpoint)',
+        },
+        {
+            displayName: 'Azure OpenAI API Version (Optional)',
+            name: 'azureApiVersion',
+            type: 'string',
+            default: '',
+            placeholder: '2024-10-21',
+            description:
+                'Optional Azure OpenAI API version override (maps to credentials.azureApiVersion)',
+        },
+    ];
+}
@@ -0,0 +1,19 @@
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class LimescapeDocsGoogleGeminiApi implements ICredentialType {
+    name = 'limescapeDocsGoogleGeminiApi';
+    displayName = 'Limescape Docs Google Gemini API';
+    documentationUrl = 'https://dev.azure.com/truelime/Team%20AI/_git/limescape-ai-limescape-docs';
+    properties: INodeProperties[] = [
+        {
+            displayName: 'Google Gemini API Key',
+            name: 'googleApiKey',
+            required: true,
+            type: 'string',
+            typeOptions: { password: true },
+            default: '',
+            description:
+                'Your Google GenAI (Gemini) API key (maps to credentials.apiKey when using ModelProvider.GOOGLE)',
+        },
+    ];
+}
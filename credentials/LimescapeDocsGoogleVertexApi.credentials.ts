@@ -0,0 +1,29 @@
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class LimescapeDocsGoogleVertexApi implements ICredentialType {
+    name = 'limescapeDocsGoogleVertexApi';
+    displayName = 'Limescape Docs Google Vertex API';
+    documentationUrl = 'https://dev.azure.com/truelime/Team%20AI/_git/limescape-ai-limescape-docs';
+    properties: INodeProperties[] = [
+        {
+            displayName: 'Vertex Service Account JSON',
+            name: 'vertexServiceAccount',
+            required: true,
+            type: 'string',
+            typeOptions: { password: true },
+            default: '',
+            description:
+                'Service account JSON string for Vertex AI (maps to credentials.serviceAccount when using ModelProvider.VERTEX)',
+        },
+        {
+            displayName: 'Vertex Location',
+            name: 'vertexLocation',
+            required: true,
+            type: 'string',
+            default: '',
+            placeholder: 'europe-west1',
+            description:
+                'Vertex AI region / location (maps to credentials.location for Vertex AI)',
+        },
+    ];
+}
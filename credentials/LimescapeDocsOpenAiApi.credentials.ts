@@ -0,0 +1,19 @@
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class LimescapeDocsOpenAiApi implements ICredentialType {
+    name = 'limescapeDocsOpenAiApi';
+    displayName = 'Limescape Docs OpenAI API';
+    documentationUrl = 'https://dev.azure.com/truelime/Team%20AI/_git/limescape-ai-limescape-docs';
+    properties: INodeProperties[] = [
+        {
+            displayName: 'OpenAI API Key',
+            name: 'openaiApiKey',
+            required: true,
+            type: 'string',
+            typeOptions: { password: true },
+            default: '',
+            description:
+                'Your OpenAI API key (maps to credentials.apiKey when using ModelProvider.OPENAI)',
+        },
+    ];
+}
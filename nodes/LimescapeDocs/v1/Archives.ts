@@ -0,0 +1,153 @@
+import path from 'node:path';
+import { Unzip, UnzipInflate } from 'fflate';
+import { detectFileType } from './InputSources';
+
+/**
+ * Unpacks ZIP archives for the Expand ZIP Archives option. Nested archives are opened up to a
+ * depth limit; the other limits guard against zip bombs and are checked against the bytes actually
+ * decompressed, not the sizes the archive claims.
+ *
+ * Entries are never written under their own names, but names that try to escape the archive
+ * (`../`, absolute paths) are still refused, so they cannot end up in file names downstream.
+ */
+
+export interface ArchiveLimits {
+    // Nested archive levels to open below the top-level archive
+    maxDepth: number;
+    // Files across the archive and its nested archives
+    maxFiles: number;
+    // Bytes of all unpacked files together
+    maxTotalSize: number;
+    // Unpacked size divided by compressed size, per entry
+    maxCompressionRatio: number;
+}
+
+export interface ArchiveEntry {
+    // Archive name plus the entry path, e.g. "scans.zip/2024/invoice.pdf"
+    path: string;
+    data: Buffer;
+}
+
+export interface ExpandedArchive {
+    entries: ArchiveEntry[];
+    // Entries that were left out, e.g. unsafe names or archives past the depth limit
+    issues: string[];
+}
+
+interface ExpansionState {
+    files: number;
+    totalSize: number;
+}
+
+// Highly compressible files such as blank scans stay under the ratio check until they reach this size
+const MIN_RATIO_CHECK_SIZE = 1024 * 1024;
+
+// Metadata that archivers add next to the real files
+const IGNORED_ENTRY = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$)/i;
+
+// ZIP-based office formats (docx, xlsx, ...) are documents, not archives
+export const isZipArchive = (data: Buffer): boolean => detectFileType(data)?.extension === 'zip';
+
+/**
+ * Normalizes an entry name to a relative path with forward slashes, or returns undefined when it
+ * points outside the archive.
+ */
+export const sanitizeEntryName = (name: string): string | undefined => {
+    const normalized = name.replace(/\\/g, '/');
+    if (normalized.startsWith('/') || /^[a-z]:/i.test(normalized)) return undefined;
+    const segments = normalized.split('/').filter((segment) => segment !== '' && segment !== '.');
+    if (segments.length === 0 || segments.includes('..')) return undefined;
+    return segments.join('/');
+};
+
+const unzip = (data: Buffer, archivePath: string, limits: ArchiveLimits, state: ExpansionState, issues: string[]): ArchiveEntry[] => {
+    const entries: ArchiveEntry[] = [];
+    let failure: Error | undefined;
+    // Entry still waiting for its last chunk; one is left over when the archive is cut short
+    let unfinishedEntry: string | undefined;
+
+    const unzipper = new Unzip((file) => {
+        if (failure || file.name.endsWith('/') || IGNORED_ENTRY.test(file.name)) return;
+
+        const entryName = sanitizeEntryName(file.name);
+        if (!entryName) {
+            issues.push(`Skipped archive entry '${archivePath}/${file.name}': Path points outside the archive.`);
+            return;
+        }
+        if (++state.files > limits.maxFiles) {
+            failure = new Error(`Archive ${archivePath} contains more than ${limits.maxFiles} files.`);
+            return;
+        }
+
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+        file.ondata = (error, chunk, final) => {
+            if (failure) return;
+            if (error) {
+                failure = new Error(`Cannot unpack '${archivePath}/${entryName}': ${error.message}`);
+                return;
+            }
+            size += chunk.length;
+            state.totalSize += chunk.length;
+            if (state.totalSize > limits.maxTotalSize) {
+                failure = new Error(`Archive ${archivePath} unpacks to more than ${Math.round(limits.maxTotalSize / (1024 * 1024))} MB.`);
+            } else if (file.size && size > MIN_RATIO_CHECK_SIZE && size > file.size * limits.maxCompressionRatio) {
+                failure = new Error(`Archive entry '${archivePath}/${entryName}' exceeds the compression ratio limit of ${limits.maxCompressionRatio}.`);
+            }
+            if (failure) {
+                file.terminate();
+                return;
+            }
+            chunks.push(chunk);
+            if (final) {
+                unfinishedEntry = undefined;
+                entries.push({ path: `${archivePath}/${entryName}`, data: Buffer.concat(chunks) });
+            }
+        };
+        unfinishedEntry = entryName;
+        file.start();
+    });
+    unzipper.register(UnzipInflate);
+    try {
+        unzipper.push(data, true);
+    } catch (error) {
+        throw new Error(`Cannot unpack ${archivePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (failure) throw failure;
+    if (unfinishedEntry) {
+        throw new Error(`Archive ${archivePath} is truncated or corrupt at '${unfinishedEntry}'.`);
+    }
+    return entries;
+};
+
+const expand = (
+    data: Buffer,
+    archivePath: string,
+    limits: ArchiveLimits,
+    depth: number,
+    state: ExpansionState,
+    issues: string[],
+): ArchiveEntry[] => {
+    const entries: ArchiveEntry[] = [];
+    for (const entry of unzip(data, archivePath, limits, state, issues)) {
+        if (!isZipArchive(entry.data)) {
+            entries.push(entry);
+        } else if (depth < limits.maxDepth) {
+            entries.push(...expand(entry.data, entry.path, limits, depth + 1, state, issues));
+        } else {
+            issues.push(`Skipped nested archive '${entry.path}': Max Nesting Depth of ${limits.maxDepth} reached.`);
+        }
+    }
+    return entries;
+};
+
+/**
+ * Unpacks `data` and any nested archives within the depth limit. Throws when the archive is
+ * corrupt or exceeds a size or file count limit; nothing is returned for it then.
+ */
+export const expandArchive = (data: Buffer, fileName: string, limits: ArchiveLimits): ExpandedArchive => {
+    const issues: string[] = [];
+    const entries = expand(data, path.basename(fileName), limits, 0, { files: 0, totalSize: 0 }, issues);
+    return { entries, issues };
+};
@@ -0,0 +1,95 @@
+/**
+ * Execution cancellation and the Per Document Timeout option.
+ *
+ * Limescape Docs takes no abort signal, so a running call (a LibreOffice conversion, an LLM
+ * request) cannot be interrupted from here. When the execution is cancelled or a file runs out of
+ * time, the node stops waiting for the call instead: the file fails at once, its temp files are
+ * removed, and the abandoned call is left to finish or fail on its own. It keeps using the
+ * provider, so its tokens are still billed; a late result can be reported through `onLateResult`.
+ */
+
+export class DocumentTimeoutError extends Error {
+    constructor(fileName: string, timeoutMs: number) {
+        super(`Processing ${fileName} timed out after ${timeoutMs / 1000} s (Per Document Timeout).`);
+        this.name = 'DocumentTimeoutError';
+    }
+}
+
+export class ExecutionCancelledError extends Error {
+    constructor(fileName: string) {
+        super(`Processing ${fileName} was stopped because the execution was cancelled.`);
+        this.name = 'ExecutionCancelledError';
+    }
+}
+
+export interface DocumentDeadline {
+    // Aborted when the execution is cancelled or the timeout passes; the reason is the error to report
+    signal: AbortSignal;
+    // Calls that were still running when the signal aborted
+    abandoned: Array<Promise<void>>;
+    dispose: () => void;
+}
+
+/**
+ * Starts the deadline of one file. A timeout of 0 means no limit, so only cancelling the execution
+ * aborts it. Call `dispose` when the file is done.
+ */
+export const createDocumentDeadline = (
+    cancelSignal: AbortSignal | undefined,
+    timeoutMs: number,
+    fileName: string,
+): DocumentDeadline => {
+    const controller = new AbortController();
+    const onCancel = () => controller.abort(new ExecutionCancelledError(fileName));
+    if (cancelSignal?.aborted) {
+        onCancel();
+    } else {
+        cancelSignal?.addEventListener('abort', onCancel, { once: true });
+    }
+    const timer = timeoutMs > 0 && !controller.signal.aborted
+        ? setTimeout(() => controller.abort(new DocumentTimeoutError(fileName, timeoutMs)), timeoutMs)
+        : undefined;
+
+    return {
+        signal: controller.signal,
+        abandoned: [],
+        dispose: () => {
+            if (timer) clearTimeout(timer);
+            cancelSignal?.removeEventListener('abort', onCancel);
+        },
+    };
+};
+
+/**
+ * Runs `start` unless the deadline has already passed and settles as soon as the work does or the
+ * deadline aborts, whichever comes first. Work that loses the race is recorded as abandoned, and
+ * its result, should it still arrive, goes to `onLateResult`.
+ */
+export const untilAborted = <T>(
+    start: () => Promise<T>,
+    deadline: DocumentDeadline,
+    onLateResult?: (value: T) => void,
+): Promise<T> => {
+    const { signal } = deadline;
+    if (signal.aborted) return Promise.reject(signal.reason);
+
+    const work = start();
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            // Late errors are swallowed, so they cannot become unhandled rejections
+            deadline.abandoned.push(work.then((value) => onLateResult?.(value)).catch(() => undefined));
+            reject(signal.reason);
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        work.then(
+            (value) => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            (error) => {
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            },
+        );
+    });
+};
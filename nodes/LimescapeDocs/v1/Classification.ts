@@ -0,0 +1,85 @@
+import type { IDataObject } from 'n8n-workflow';
+
+/**
+ * Helpers for the Classify operation: the schema and prompt sent to the model, and mapping its
+ * answer onto the user-defined categories.
+ */
+
+export const UNKNOWN_CATEGORY = 'unknown';
+
+export interface ClassificationCategory {
+    name: string;
+    description?: string;
+}
+
+export interface ClassificationResult {
+    // Category the file is routed to; `unknown` when the answer is below the threshold or not a category
+    label: string;
+    // Label exactly as returned by the model
+    predictedLabel: string | null;
+    confidence: number;
+    reasoning: string;
+}
+
+/**
+ * Reads the fixedCollection value (`{ category: [...] }`) into a list of categories.
+ */
+export const getClassificationCategories = (value: unknown): ClassificationCategory[] => {
+    const categories = ((value as IDataObject | undefined)?.category ?? []) as IDataObject[];
+    return categories.map((category) => ({
+        name: String(category.name ?? '').trim(),
+        description: (category.description as string | undefined)?.trim() || undefined,
+    }));
+};
+
+export const buildClassificationSchema = (categories: ClassificationCategory[]): Record<string, unknown> => ({
+    type: 'object',
+    properties: {
+        label: {
+            type: 'string',
+            enum: [...categories.map((category) => category.name), UNKNOWN_CATEGORY],
+            description: `The category that best matches the document, or "${UNKNOWN_CATEGORY}" when none fits.`,
+        },
+        confidence: {
+            type: 'number',
+            description: 'A score between 0 and 1 indicating how confident the model is in the label.',
+        },
+        reasoning: {
+            type: 'string',
+            description: 'One or two sentences explaining which features of the document led to the label.',
+        },
+    },
+    required: ['label', 'confidence', 'reasoning'],
+});
+
+export const buildClassificationPrompt = (categories: ClassificationCategory[], pageCount: number): string => [
+    `Classify the document into exactly one of the categories below. At most its first ${pageCount} page(s) are included; base the label on those.`,
+    '',
+    ...categories.map((category) => `- ${category.name}${category.description ? `: ${category.description}` : ''}`),
+    '',
+    `Answer "${UNKNOWN_CATEGORY}" when the document does not clearly belong to any category.`,
+    'Report your confidence honestly; do not guess a category to avoid answering unknown.',
+].join('\n');
+
+/**
+ * Maps the extracted answer onto a category. Labels are matched case-insensitively; answers that
+ * are not a category or are below `confidenceThreshold` become `unknown`.
+ */
+export const parseClassification = (
+    extracted: unknown,
+    categories: ClassificationCategory[],
+    confidenceThreshold: number,
+): ClassificationResult => {
+    const answer = (extracted && typeof extracted === 'object' && !Array.isArray(extracted) ? extracted : {}) as IDataObject;
+    const predictedLabel = typeof answer.label === 'string' && answer.label.trim() !== '' ? answer.label.trim() : null;
+    const rawConfidence = Number(answer.confidence);
+    const confidence = Number.isFinite(rawConfidence) ? Math.min(1, Math.max(0, rawConfidence)) : 0;
+    const reasoning = typeof answer.reasoning === 'string' ? answer.reasoning : '';
+
+    const category = predictedLabel
+        ? categories.find((entry) => entry.name.toLowerCase() === predictedLabel.toLowerCase())
+        : undefined;
+    const label = category && confidence >= confidenceThreshold ? category.name : UNKNOWN_CATEGORY;
+
+    return { label, predictedLabel, confidence, reasoning };
+};
@@ -0,0 +1,309 @@
+/**
+ * Confidence checks for the Route Low Confidence to Review option.
+ *
+ * Scores come from the model itself (a confidence field in the extracted data, such as the
+ * `confidence_score` of the default schema) and/or from the token log probabilities of the
+ * extraction call. A self-reported score covers the object it sits in, so a zone's score applies to
+ * every field of that zone. A field's log probability score is the probability of its least certain
+ * token, so one doubtful digit in an amount is enough to flag it.
+ */
+
+export type ConfidenceSource = 'selfReported' | 'logprobs' | 'both';
+
+export interface FieldThreshold {
+    // Leaf path or prefix; "[*]" or "[]" matches any array index and "*" any key, e.g. "line_items[*].amount"
+    field: string;
+    minConfidence: number;
+}
+
+export interface ConfidenceSettings {
+    source: ConfidenceSource;
+    // Name of the self-reported score in the extracted data
+    confidenceField: string;
+    // 0 turns the document check off
+    documentThreshold: number;
+    fieldThresholds: FieldThreshold[];
+    // Whether a check without any score counts as failed
+    reviewWhenMissing: boolean;
+}
+
+export interface TokenLogprob {
+    token: string;
+    logprob: number;
+}
+
+// Probability of the least certain token per leaf path of one extraction
+export interface TokenConfidence {
+    pageNumber: number | null;
+    fields: Record<string, number>;
+}
+
+export interface ConfidenceExtraction {
+    pageNumber: number | null;
+    data: unknown;
+    tokenConfidence?: Record<string, number>;
+}
+
+interface Score {
+    value: number;
+    source: 'selfReported' | 'logprobs';
+}
+
+export interface ConfidenceFailure {
+    // null for the document score
+    field: string | null;
+    pageNumber: number | null;
+    confidence: number | null;
+    threshold: number;
+    source: 'selfReported' | 'logprobs' | null;
+    reason: string;
+}
+
+export interface ConfidenceReport {
+    documentConfidence: number | null;
+    needsReview: boolean;
+    failures: ConfidenceFailure[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Reads the extraction log probabilities from a Limescape Docs result, shaped
+ * `{ ocr, extracted: [{ page, value: [{ token, logprob }] }] }`. Returns an empty list when the
+ * provider returned none.
+ */
+export const readExtractionLogprobs = (logprobs: unknown): Array<{ page: number | null; tokens: TokenLogprob[] }> => {
+    const extracted = isRecord(logprobs) ? logprobs.extracted : undefined;
+    if (!Array.isArray(extracted)) return [];
+    return extracted.filter(isRecord).map((entry) => ({
+        page: typeof entry.page === 'number' ? entry.page : null,
+        tokens: (Array.isArray(entry.value) ? entry.value : []).filter(
+            (token): token is TokenLogprob => isRecord(token) && typeof token.token === 'string' && typeof token.logprob === 'number',
+        ),
+    }));
+};
+
+/**
+ * Walks the JSON text the tokens spell out and reports the character span of every primitive
+ * value. Malformed text stops the walk; the spans found until then are kept.
+ */
+const scanJsonValues = (text: string, onValue: (path: string, start: number, end: number) => void): void => {
+    let pos = text.search(/[{[]/);
+    if (pos < 0) return;
+
+    const skipWhitespace = () => {
+        while (pos < text.length && /\s/.test(text[pos])) pos++;
+    };
+    const expect = (char: string) => {
+        skipWhitespace();
+        if (text[pos] !== char) throw new Error(`Expected '${char}' at ${pos}`);
+        pos++;
+    };
+    const readString = (): { start: number; end: number; value: string } => {
+        skipWhitespace();
+        const start = pos;
+        expect('"');
+        while (pos < text.length && text[pos] !== '"') {
+            pos += text[pos] === '\\' ? 2 : 1;
+        }
+        expect('"');
+        return { start, end: pos, value: JSON.parse(text.slice(start, pos)) as string };
+    };
+    const readValue = (path: string): void => {
+        skipWhitespace();
+        const char = text[pos];
+        if (char === '{' || char === '[') {
+            const isObject = char === '{';
+            pos++;
+            skipWhitespace();
+            for (let index = 0; text[pos] !== (isObject ? '}' : ']'); index++) {
+                if (index > 0) expect(',');
+                if (isObject) {
+                    const key = readString().value;
+                    expect(':');
+                    readValue(path ? `${path}.${key}` : key);
+                } else {
+                    readValue(`${path}[${index}]`);
+                }
+                skipWhitespace();
+                if (pos >= text.length) throw new Error('Unexpected end of JSON');
+            }
+            pos++;
+        } else if (char === '"') {
+            const { start, end } = readString();
+            // Quotes usually share a token with the surrounding punctuation, so only the content counts
+            if (end - start > 2) onValue(path, start + 1, end - 1);
+        } else {
+            const start = pos;
+            while (pos < text.length && !/[,}\]\s]/.test(text[pos])) pos++;
+            if (pos === start) throw new Error(`Unexpected character at ${pos}`);
+            onValue(path, start, pos);
+        }
+    };
+
+    try {
+        readValue('');
+    } catch {
+        // Keep the values read so far
+    }
+};
+
+/**
+ * Maps every leaf path of the extracted JSON to the probability of its least certain token.
+ * With `root`, only values under that top-level key count and the key is dropped from the paths.
+ */
+export const getTokenConfidence = (tokens: TokenLogprob[], root?: string): Record<string, number> => {
+    const starts: number[] = [];
+    let text = '';
+    for (const { token } of tokens) {
+        starts.push(text.length);
+        text += token;
+    }
+
+    const fields: Record<string, number> = {};
+    scanJsonValues(text, (path, start, end) => {
+        let field = path;
+        if (root) {
+            if (!path.startsWith(`${root}.`) && !path.startsWith(`${root}[`)) return;
+            field = path.substring(root.length).replace(/^\./, '');
+        }
+        let lowest = 0;
+        tokens.forEach((token, index) => {
+            const tokenEnd = starts[index] + token.token.length;
+            if (starts[index] < end && tokenEnd > start) lowest = Math.min(lowest, token.logprob);
+        });
+        fields[field] = round(Math.exp(lowest));
+    });
+    return fields;
+};
+
+// Scores written as percentages (e.g. 85) are read as fractions
+const toScore = (value: unknown): number | undefined => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100) return undefined;
+    return value > 1 ? value / 100 : value;
+};
+
+/**
+ * Collects the leaves of `data` with the self-reported score of the closest object around them.
+ * The confidence fields themselves are not leaves.
+ */
+const collectLeaves = (
+    value: unknown,
+    path: string,
+    confidenceField: string,
+    inherited: number | undefined,
+    leaves: Array<{ path: string; selfReported?: number }>,
+    scores: number[],
+): void => {
+    if (Array.isArray(value)) {
+        value.forEach((item, index) => collectLeaves(item, `${path}[${index}]`, confidenceField, inherited, leaves, scores));
+    } else if (isRecord(value)) {
+        const own = toScore(value[confidenceField]);
+        if (own !== undefined) scores.push(own);
+        for (const [key, item] of Object.entries(value)) {
+            if (key === confidenceField) continue;
+            collectLeaves(item, path ? `${path}.${key}` : key, confidenceField, own ?? inherited, leaves, scores);
+        }
+    } else if (value !== null && value !== undefined && value !== '' && path) {
+        leaves.push({ path, selfReported: inherited });
+    }
+};
+
+// The lower of the scores the settings ask for; undefined when none is available
+const combineScores = (source: ConfidenceSource, selfReported: number | undefined, logprobs: number | undefined): Score | undefined => {
+    const scores: Score[] = [];
+    if (source !== 'logprobs' && selfReported !== undefined) scores.push({ value: round(selfReported), source: 'selfReported' });
+    if (source !== 'selfReported' && logprobs !== undefined) scores.push({ value: round(logprobs), source: 'logprobs' });
+    return scores.reduce<Score | undefined>((lowest, score) => (!lowest || score.value < lowest.value ? score : lowest), undefined);
+};
+
+const toPatternRegExp = (pattern: string): RegExp => {
+    const escaped = pattern
+        .trim()
+        .replace(/\[\*?\]/g, '\u0000')
+        .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '[^.[\\]]*')
+        .replace(/\u0000/g, '\\[\\d+\\]');
+    // A pattern naming an object or array covers everything inside it
+    return new RegExp(`^${escaped}(?:$|[.[])`);
+};
+
+const SOURCE_LABELS: Record<Score['source'], string> = { selfReported: 'self-reported', logprobs: 'log probabilities' };
+
+const describeFailure = (subject: string, score: Score | undefined, threshold: number): string => (score
+    ? `${subject} confidence ${score.value} (${SOURCE_LABELS[score.source]}) is below the threshold of ${threshold}.`
+    : `${subject} has no confidence score.`);
+
+/**
+ * Checks the document score and the field thresholds of every extraction (one per page in
+ * page-by-page mode). The document score is the self-reported score of the root object, or the
+ * lowest self-reported score when the root has none, and the average field score from log
+ * probabilities; with several pages the lowest page counts.
+ */
+export const evaluateConfidence = (extractions: ConfidenceExtraction[], settings: ConfidenceSettings): ConfidenceReport => {
+    const failures: ConfidenceFailure[] = [];
+    const patterns = settings.fieldThresholds.map((threshold) => ({ ...threshold, regExp: toPatternRegExp(threshold.field) }));
+    let documentScore: Score | undefined;
+
+    for (const extraction of extractions) {
+        const leaves: Array<{ path: string; selfReported?: number }> = [];
+        const selfReportedScores: number[] = [];
+        collectLeaves(extraction.data, '', settings.confidenceField, undefined, leaves, selfReportedScores);
+
+        const tokenScores: number[] = [];
+        for (const leaf of leaves) {
+            const logprobs = extraction.tokenConfidence?.[leaf.path];
+            if (logprobs !== undefined) tokenScores.push(logprobs);
+            const matching = patterns.filter((pattern) => pattern.regExp.test(leaf.path));
+            if (matching.length === 0) continue;
+
+            const score = combineScores(settings.source, leaf.selfReported, logprobs);
+            const threshold = Math.max(...matching.map((pattern) => pattern.minConfidence));
+            if (score ? score.value < threshold : settings.reviewWhenMissing) {
+                failures.push({
+                    field: leaf.path,
+                    pageNumber: extraction.pageNumber,
+                    confidence: score?.value ?? null,
+                    threshold,
+                    source: score?.source ?? null,
+                    reason: describeFailure(`Field '${leaf.path}'`, score, threshold),
+                });
+            }
+        }
+
+        const rootScore = isRecord(extraction.data) ? toScore(extraction.data[settings.confidenceField]) : undefined;
+        const score = combineScores(
+            settings.source,
+            rootScore ?? (selfReportedScores.length > 0 ? Math.min(...selfReportedScores) : undefined),
+            tokenScores.length > 0 ? tokenScores.reduce((sum, value) => sum + value, 0) / tokenScores.length : undefined,
+        );
+        if (score && (!documentScore || score.value < documentScore.value)) documentScore = score;
+    }
+
+    const documentThreshold = settings.documentThreshold;
+    if (documentThreshold > 0 && (documentScore ? documentScore.value < documentThreshold : settings.reviewWhenMissing)) {
+        failures.unshift({
+            field: null,
+            pageNumber: null,
+            confidence: documentScore?.value ?? null,
+            threshold: documentThreshold,
+            source: documentScore?.source ?? null,
+            reason: describeFailure('Document', documentScore, documentThreshold),
+        });
+    }
+
+    return { documentConfidence: documentScore?.value ?? null, needsReview: failures.length > 0, failures };
+};
+
+export const getFieldThresholds = (value: unknown): FieldThreshold[] => {
+    const thresholds = ((value as Record<string, unknown> | undefined)?.threshold ?? []) as Array<Record<string, unknown>>;
+    return thresholds
+        .map((threshold) => ({
+            field: String(threshold.field ?? '').trim(),
+            minConfidence: Math.min(1, Math.max(0, Number(threshold.minConfidence ?? 0))),
+        }))
+        .filter((threshold) => threshold.field.length > 0);
+};
@@ -0,0 +1,145 @@
+import type { IDataObject } from 'n8n-workflow';
+import { PDFDocument } from 'pdf-lib';
+
+/**
+ * Helpers for the Split Document operation.
+ *
+ * Every page is extracted on its own with a small "page signals" schema; boundaries are then
+ * derived from those signals in code, so the model never has to reason about the whole scan.
+ */
+
+export interface PageSignals {
+    pageNumber: number;
+    startsNewDocument: boolean;
+    documentType?: string;
+    documentReference?: string;
+    pageLabel?: string;
+}
+
+export interface DocumentRange {
+    startPage: number;
+    endPage: number;
+    documentType?: string;
+    documentReference?: string;
+}
+
+export const PAGE_SIGNALS_SCHEMA: Record<string, unknown> = {
+    type: 'object',
+    properties: {
+        starts_new_document: {
+            type: 'boolean',
+            description: 'Whether this page is the first page of a document, e.g. it has a letterhead, a title, a new document number or "page 1 of N".',
+        },
+        document_type: {
+            type: 'string',
+            description: 'Kind of document this page belongs to, e.g. invoice, contract, letter.',
+        },
+        document_reference: {
+            type: 'string',
+            description: 'Identifier printed on the page that all pages of the same document share, e.g. the invoice number. Empty when there is none.',
+        },
+        page_label: {
+            type: 'string',
+            description: 'Page numbering printed on the page, e.g. "Page 2 of 3". Empty when there is none.',
+        },
+    },
+    required: ['starts_new_document'],
+};
+
+export const buildSplitPrompt = (hints?: string): string => [
+    'This page comes from a scan that may contain several documents back to back.',
+    'Describe only this page: whether it starts a new document, the type of document and the identifiers and page numbering printed on it.',
+    'Copy identifiers exactly as printed; leave a field empty rather than guessing.',
+    ...(hints ? ['', `Hints about the documents in this scan: ${hints}`] : []),
+].join('\n');
+
+const optionalString = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+export const toPageSignals = (pageNumber: number, extracted: unknown): PageSignals => {
+    const answer = (extracted && typeof extracted === 'object' && !Array.isArray(extracted) ? extracted : {}) as IDataObject;
+    return {
+        pageNumber,
+        startsNewDocument: answer.starts_new_document === true || answer.starts_new_document === 'true',
+        documentType: optionalString(answer.document_type),
+        documentReference: optionalString(answer.document_reference),
+        pageLabel: optionalString(answer.page_label),
+    };
+};
+
+// "Page 2 of 3", "2/3", "p. 2 van 3" -> 2
+const parsePageLabelNumber = (label: string | undefined): number | undefined => {
+    if (!label) return undefined;
+    const match = /(\d+)\s*(?:\/|of|van|von|de|sur)\s*\d+/i.exec(label);
+    return match ? Number(match[1]) : undefined;
+};
+
+const normalizeReference = (reference: string | undefined): string | undefined =>
+    reference?.toLowerCase().replace(/\s+/g, '');
+
+/**
+ * Groups pages into documents. Printed page numbering wins over a changed document reference,
+ * which wins over the model's own starts-new-document flag. Pages without signals continue the
+ * current document.
+ */
+export const detectDocumentRanges = (signals: PageSignals[], pageCount: number): DocumentRange[] => {
+    const byPage = new Map(signals.map((signal) => [signal.pageNumber, signal]));
+    const ranges: DocumentRange[] = [];
+    let current: DocumentRange | undefined;
+    let currentReference: string | undefined;
+
+    for (let page = 1; page <= pageCount; page++) {
+        const signal = byPage.get(page);
+        const reference = normalizeReference(signal?.documentReference);
+        const labelNumber = parsePageLabelNumber(signal?.pageLabel);
+
+        let startsNew = !current;
+        if (current && signal) {
+            if (labelNumber !== undefined) {
+                startsNew = labelNumber === 1;
+            } else if (reference && currentReference) {
+                startsNew = reference !== currentReference;
+            } else {
+                startsNew = signal.startsNewDocument;
+            }
+        }
+
+        if (startsNew || !current) {
+            current = {
+                startPage: page,
+                endPage: page,
+                documentType: signal?.documentType,
+                documentReference: signal?.documentReference,
+            };
+            currentReference = reference;
+            ranges.push(current);
+            continue;
+        }
+
+        current.endPage = page;
+        current.documentType = current.documentType ?? signal?.documentType;
+        if (!current.documentReference && signal?.documentReference) {
+            current.documentReference = signal.documentReference;
+            currentReference = reference;
+        }
+    }
+
+    return ranges;
+};
+
+export const getPdfPageCount = async (pdf: Buffer): Promise<number> => {
+    const document = await PDFDocument.load(pdf, { ignoreEncryption: true });
+    return document.getPageCount();
+};
+
+/**
+ * Copies the 1-based, inclusive page range into a new PDF.
+ */
+export const extractPdfPages = async (pdf: Buffer, startPage: number, endPage: number): Promise<Buffer> => {
+    const source = await PDFDocument.load(pdf, { ignoreEncryption: true });
+    const target = await PDFDocument.create();
+    const indices = Array.from({ length: endPage - startPage + 1 }, (_, index) => startPage - 1 + index);
+    const pages = await target.copyPages(source, indices);
+    pages.forEach((page) => target.addPage(page));
+    return Buffer.from(await target.save());
+};
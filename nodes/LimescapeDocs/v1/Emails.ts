@@ -0,0 +1,171 @@
+import path from 'node:path';
+import PostalMime from 'postal-mime';
+import MsgReader, { FieldsData } from '@kenjiuno/msgreader';
+import { describeDocument, InputDocument } from './InputSources';
+
+/**
+ * Splits .eml (RFC 822) and Outlook .msg files into their body and attachments for the Expand
+ * Emails option. The body becomes an HTML document when the message has an HTML part, otherwise
+ * a text document.
+ */
+
+export type EmailFormat = 'eml' | 'msg';
+
+export interface EmailHeaders {
+    from: string | null;
+    to: string[];
+    cc: string[];
+    subject: string | null;
+    // ISO 8601 when the date parses, otherwise as written in the message
+    date: string | null;
+    messageId: string | null;
+}
+
+export interface EmailPart {
+    part: 'body' | 'attachment';
+    document: InputDocument;
+}
+
+export interface ParsedEmail {
+    headers: EmailHeaders;
+    // Body first, then attachments in message order
+    parts: EmailPart[];
+}
+
+export interface EmailParseOptions {
+    includeBody: boolean;
+    // Images referenced from the HTML body, e.g. logos in signatures
+    includeInlineImages: boolean;
+}
+
+// Compound File Binary header, the container format of .msg files
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+export const getEmailFormat = (document: InputDocument): EmailFormat | undefined => {
+    const mimeType = document.mimeType.toLowerCase();
+    if (document.extension === 'eml' || mimeType === 'message/rfc822') return 'eml';
+    const isCfb = CFB_SIGNATURE.every((byte, index) => document.data[index] === byte);
+    if (isCfb && (document.extension === 'msg' || mimeType === 'application/vnd.ms-outlook')) return 'msg';
+    return undefined;
+};
+
+const toIsoDate = (value: string | undefined): string | null => {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date.toISOString();
+};
+
+const formatAddress = (name: string | undefined, address: string | undefined): string =>
+    (name && address && name !== address ? `${name} <${address}>` : address || name || '');
+
+const formatAddresses = (addresses: PostalMime.Address[] | undefined): string[] =>
+    (addresses ?? [])
+        .flatMap((address) => (address.group ? address.group : [address]))
+        .map((mailbox) => formatAddress(mailbox.name, mailbox.address))
+        .filter((value) => value.length > 0);
+
+const createBody = (emailFileName: string, html: string | undefined, text: string | undefined): InputDocument | undefined => {
+    const baseName = path.parse(emailFileName).name;
+    if (html?.trim()) {
+        return { data: Buffer.from(html, 'utf8'), fileName: `${baseName}_body.html`, extension: 'html', mimeType: 'text/html' };
+    }
+    if (text?.trim()) {
+        return { data: Buffer.from(text, 'utf8'), fileName: `${baseName}_body.txt`, extension: 'txt', mimeType: 'text/plain' };
+    }
+    return undefined;
+};
+
+const parseEml = async (data: Buffer, fileName: string, options: EmailParseOptions): Promise<ParsedEmail> => {
+    const email = await PostalMime.parse(data);
+    const parts: EmailPart[] = [];
+
+    const body = options.includeBody ? createBody(fileName, email.html, email.text) : undefined;
+    if (body) parts.push({ part: 'body', document: body });
+
+    email.attachments.forEach((attachment, index) => {
+        if (attachment.related && !options.includeInlineImages) return;
+        const content = typeof attachment.content === 'string'
+            ? Buffer.from(attachment.content, attachment.encoding === 'base64' ? 'base64' : 'utf8')
+            : Buffer.from(attachment.content instanceof ArrayBuffer ? new Uint8Array(attachment.content) : attachment.content);
+        parts.push({
+            part: 'attachment',
+            document: describeDocument(content, path.basename(attachment.filename || `attachment_${index + 1}`), attachment.mimeType),
+        });
+    });
+
+    const from = email.from?.group ? email.from.name : formatAddresses(email.from ? [email.from] : [])[0];
+    return {
+        headers: {
+            from: from || null,
+            to: formatAddresses(email.to),
+            cc: formatAddresses(email.cc),
+            subject: email.subject ?? null,
+            date: toIsoDate(email.date),
+            messageId: email.messageId ?? null,
+        },
+        parts,
+    };
+};
+
+const getRecipients = (fields: FieldsData, type: 'to' | 'cc'): string[] =>
+    (fields.recipients ?? [])
+        .filter((recipient) => (recipient.recipType ?? 'to') === type)
+        .map((recipient) => formatAddress(recipient.name, recipient.smtpAddress || recipient.email))
+        .filter((value) => value.length > 0);
+
+// Transport headers hold the Message-ID; .msg files saved from drafts have none
+const getHeader = (headers: string | undefined, name: string): string | undefined =>
+    new RegExp(`^${name}:\\s*(.+)$`, 'im').exec(headers ?? '')?.[1].trim();
+
+const parseMsg = (data: Buffer, fileName: string, options: EmailParseOptions): ParsedEmail => {
+    const reader = new MsgReader(new Uint8Array(data).buffer);
+    let fields: FieldsData;
+    try {
+        fields = reader.getFileData();
+    } catch (error) {
+        throw new Error(`Cannot read Outlook message: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (fields.error) {
+        throw new Error(`Cannot read Outlook message: ${fields.error}`);
+    }
+    const parts: EmailPart[] = [];
+
+    const html = fields.bodyHtml ?? (fields.html ? Buffer.from(fields.html).toString('utf8') : undefined);
+    const body = options.includeBody ? createBody(fileName, html, fields.body) : undefined;
+    if (body) parts.push({ part: 'body', document: body });
+
+    (fields.attachments ?? []).forEach((attachment, index) => {
+        // Some clients give every attachment a Content-ID, so only images count as inline
+        const inline = Boolean(attachment.attachmentHidden
+            || (attachment.pidContentId && (attachment.attachMimeTag ?? '').startsWith('image/')));
+        if (inline && !options.includeInlineImages) return;
+        const { fileName: attachmentName, content } = reader.getAttachment(attachment);
+        parts.push({
+            part: 'attachment',
+            document: describeDocument(
+                Buffer.from(content),
+                path.basename(attachmentName || `attachment_${index + 1}`),
+                attachment.attachMimeTag,
+            ),
+        });
+    });
+
+    return {
+        headers: {
+            from: formatAddress(fields.senderName, fields.senderSmtpAddress || fields.senderEmail) || null,
+            to: getRecipients(fields, 'to'),
+            cc: getRecipients(fields, 'cc'),
+            subject: fields.subject ?? null,
+            date: toIsoDate(fields.clientSubmitTime ?? fields.messageDeliveryTime ?? getHeader(fields.headers, 'Date')),
+            messageId: fields.messageId ?? getHeader(fields.headers, 'Message-ID') ?? null,
+        },
+        parts,
+    };
+};
+
+export const parseEmail = async (
+    format: EmailFormat,
+    data: Buffer,
+    fileName: string,
+    options: EmailParseOptions,
+): Promise<ParsedEmail> => (format === 'msg' ? parseMsg(data, fileName, options) : await parseEml(data, fileName, options));
@@ -0,0 +1,635 @@
+import { createHash, createHmac, createSign } from 'node:crypto';
+import type { IDataObject } from 'n8n-workflow';
+import { ModelProvider as LimescapeModelProvider } from 'limescape-docs';
+
+export interface ProviderRequestOptions {
+    method: 'GET' | 'POST';
+    url: string;
+    headers?: IDataObject;
+    body?: string;
+}
+
+export interface ProviderResponse {
+    statusCode: number;
+    body: unknown;
+}
+
+// Transport-agnostic request so the same checks run from credential tests and load options
+export type ProviderRequest = (options: ProviderRequestOptions) => Promise<ProviderResponse>;
+
+export interface ProviderCheckResult {
+    provider: LimescapeModelProvider;
+    ok: boolean;
+    message: string;
+}
+
+export const PROVIDER_LABELS: Record<LimescapeModelProvider, string> = {
+    [LimescapeModelProvider.OPENAI]: 'OpenAI',
+    [LimescapeModelProvider.AZURE]: 'Azure',
+    [LimescapeModelProvider.AZURE_AIF]: 'Azure AI Foundry',
+    [LimescapeModelProvider.GOOGLE]: 'Google',
+    [LimescapeModelProvider.VERTEX]: 'Vertex',
+    [LimescapeModelProvider.BEDROCK]: 'Bedrock',
+};
+
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+
+class ProviderCheckError extends Error {}
+
+const hasValue = (value: unknown): boolean => typeof value === 'string' ? value.trim() !== '' : !!value;
+
+const trimTrailingSlash = (url: string): string => url.trim().replace(/\/+$/, '');
+
+export const parseResponseBody = (body: unknown): unknown => {
+    if (typeof body !== 'string') return body;
+    try {
+        return JSON.parse(body);
+    } catch {
+        return body;
+    }
+};
+
+const isWellFormedUrl = (value: unknown): boolean => {
+    if (typeof value !== 'string') return false;
+    try {
+        const url = new URL(value.trim());
+        return url.protocol === 'https:' || url.protocol === 'http:';
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Returns the providers with at least one field filled in on the combined credential.
+ */
+export const getConfiguredProviders = (credentials: IDataObject): LimescapeModelProvider[] => {
+    const configured: LimescapeModelProvider[] = [];
+    if (hasValue(credentials.openaiApiKey)) {
+        configured.push(LimescapeModelProvider.OPENAI);
+    }
+    if (hasValue(credentials.azureApiKey) || hasValue(credentials.azureEndpoint)) {
+        configured.push(LimescapeModelProvider.AZURE);
+    }
+    if (hasValue(credentials.azureAifApiKey) || hasValue(credentials.azureAifBaseUrl)) {
+        configured.push(LimescapeModelProvider.AZURE_AIF);
+    }
+    if (hasValue(credentials.googleApiKey)) {
+        configured.push(LimescapeModelProvider.GOOGLE);
+    }
+    if (hasValue(credentials.vertexServiceAccount) || hasValue(credentials.vertexLocation)) {
+        configured.push(LimescapeModelProvider.VERTEX);
+    }
+    if (
+        hasValue(credentials.bedrockRegion) ||
+        hasValue(credentials.bedrockAccessKeyId) ||
+        hasValue(credentials.bedrockSecretAccessKey)
+    ) {
+        configured.push(LimescapeModelProvider.BEDROCK);
+    }
+    return configured;
+};
+
+export interface VertexServiceAccount {
+    client_email: string;
+    private_key: string;
+    project_id: string;
+    token_uri?: string;
+}
+
+export const parseVertexServiceAccount = (raw: unknown): VertexServiceAccount => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(String(raw));
+    } catch {
+        throw new ProviderCheckError('invalid JSON');
+    }
+    const account = parsed as Partial<VertexServiceAccount> | null;
+    if (!account || typeof account !== 'object') {
+        throw new ProviderCheckError('invalid JSON');
+    }
+    const missing = (['client_email', 'private_key', 'project_id'] as const).filter((key) => !account[key]);
+    if (missing.length > 0) {
+        throw new ProviderCheckError(`service account JSON is missing ${missing.join(', ')}`);
+    }
+    return account as VertexServiceAccount;
+};
+
+/**
+ * Checks the shape of one provider section without calling the provider.
+ * Throws a ProviderCheckError with a short reason on the first problem found.
+ */
+const validateProviderFormat = (provider: LimescapeModelProvider, credentials: IDataObject): void => {
+    switch (provider) {
+        case LimescapeModelProvider.AZURE:
+            if (!hasValue(credentials.azureApiKey)) throw new ProviderCheckError('API key missing');
+            if (!isWellFormedUrl(credentials.azureEndpoint)) throw new ProviderCheckError('invalid endpoint URL');
+            return;
+        case LimescapeModelProvider.AZURE_AIF:
+            if (!hasValue(credentials.azureAifApiKey)) throw new ProviderCheckError('API key missing');
+            if (!isWellFormedUrl(credentials.azureAifBaseUrl)) throw new ProviderCheckError('invalid base URL');
+            return;
+        case LimescapeModelProvider.VERTEX:
+            parseVertexServiceAccount(credentials.vertexServiceAccount);
+            if (!hasValue(credentials.vertexLocation)) throw new ProviderCheckError('location missing');
+            return;
+        case LimescapeModelProvider.BEDROCK:
+            if (!hasValue(credentials.bedrockRegion)) throw new ProviderCheckError('region missing');
+            if (hasValue(credentials.bedrockAccessKeyId) !== hasValue(credentials.bedrockSecretAccessKey)) {
+                throw new ProviderCheckError('access key ID and secret access key must be set together');
+            }
+            return;
+        default:
+            return;
+    }
+};
+
+const toBase64Url = (input: Buffer | string): string =>
+    Buffer.from(input).toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+/**
+ * Exchanges a Vertex service account for an OAuth access token (JWT bearer grant).
+ */
+export const getVertexAccessToken = async (
+    account: VertexServiceAccount,
+    request: ProviderRequest,
+): Promise<string> => {
+    const tokenUrl = account.token_uri || GOOGLE_TOKEN_URL;
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const header = toBase64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+    const claims = toBase64Url(JSON.stringify({
+        iss: account.client_email,
+        scope: 'https://www.googleapis.com/auth/cloud-platform',
+        aud: tokenUrl,
+        iat: issuedAt,
+        exp: issuedAt + 3600,
+    }));
+
+    let signature: string;
+    try {
+        signature = toBase64Url(createSign('RSA-SHA256').update(`${header}.${claims}`).sign(account.private_key));
+    } catch {
+        throw new ProviderCheckError('invalid private key');
+    }
+
+    const response = await request({
+        method: 'POST',
+        url: tokenUrl,
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+            assertion: `${header}.${claims}.${signature}`,
+        }).toString(),
+    });
+    const body = parseResponseBody(response.body) as IDataObject | undefined;
+    if (response.statusCode >= 400 || !body?.access_token) {
+        throw new ProviderCheckError(String(response.statusCode));
+    }
+    return body.access_token as string;
+};
+
+const sha256Hex = (data: string): string => createHash('sha256').update(data, 'utf8').digest('hex');
+
+const hmac = (key: Buffer | string, data: string): Buffer => createHmac('sha256', key).update(data, 'utf8').digest();
+
+const encodeRfc3986 = (value: string): string =>
+    encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * Returns AWS Signature Version 4 headers for a request without a body.
+ */
+export const signAwsRequest = (input: {
+    method: 'GET' | 'POST';
+    url: string;
+    region: string;
+    service: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+}): IDataObject => {
+    const url = new URL(input.url);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256Hex('');
+
+    const headers: Record<string, string> = {
+        host: url.host,
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate,
+    };
+    if (input.sessionToken) {
+        headers['x-amz-security-token'] = input.sessionToken;
+    }
+
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalHeaders = signedHeaderNames.map((name) => `${name}:${headers[name].trim()}\n`).join('');
+    const signedHeaders = signedHeaderNames.join(';');
+    const canonicalQuery = [...url.searchParams.entries()]
+        .map(([key, value]) => `${encodeRfc3986(key)}=${encodeRfc3986(value)}`)
+        .sort()
+        .join('&');
+    const canonicalUri = url.pathname.split('/').map((segment) => encodeRfc3986(segment)).join('/');
+
+    const canonicalRequest = [input.method, canonicalUri, canonicalQuery, canonicalHeaders, signedHeaders, payloadHash].join('\n');
+    const scope = `${dateStamp}/${input.region}/${input.service}/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${input.secretAccessKey}`, dateStamp), input.region), input.service), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+    return {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${input.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+};
+
+// A lightweight authenticated read per provider; the response proves the secrets are accepted
+const pingProvider = async (
+    provider: LimescapeModelProvider,
+    credentials: IDataObject,
+    request: ProviderRequest,
+): Promise<string> => {
+    let options: ProviderRequestOptions;
+
+    switch (provider) {
+        case LimescapeModelProvider.OPENAI:
+            options = {
+                method: 'GET',
+                url: 'https://api.openai.com/v1/models',
+                headers: { Authorization: `Bearer ${credentials.openaiApiKey}` },
+            };
+            break;
+        case LimescapeModelProvider.AZURE: {
+            const apiVersion = (credentials.azureApiVersion as string) || DEFAULT_AZURE_API_VERSION;
+            options = {
+                method: 'GET',
+                url: `${trimTrailingSlash(credentials.azureEndpoint as string)}/openai/models?api-version=${encodeURIComponent(apiVersion)}`,
+                headers: { 'api-key': credentials.azureApiKey },
+            };
+            break;
+        }
+        case LimescapeModelProvider.AZURE_AIF:
+            options = {
+                method: 'GET',
+                url: `${trimTrailingSlash(credentials.azureAifBaseUrl as string)}/models`,
+                headers: {
+                    'api-key': credentials.azureAifApiKey,
+                    Authorization: `Bearer ${credentials.azureAifApiKey}`,
+                },
+            };
+            break;
+        case LimescapeModelProvider.GOOGLE:
+            options = {
+                method: 'GET',
+                url: 'https://generativelanguage.googleapis.com/v1beta/models?pageSize=1',
+                headers: { 'x-goog-api-key': credentials.googleApiKey },
+            };
+            break;
+        case LimescapeModelProvider.VERTEX:
+            await getVertexAccessToken(parseVertexServiceAccount(credentials.vertexServiceAccount), request);
+            return 'OK';
+        case LimescapeModelProvider.BEDROCK: {
+            if (!hasValue(credentials.bedrockAccessKeyId)) {
+                return 'OK (region set, uses the default AWS credential chain)';
+            }
+            const url = `https://bedrock.${(credentials.bedrockRegion as string).trim()}.amazonaws.com/foundation-models`;
+            options = {
+                method: 'GET',
+                url,
+                headers: signAwsRequest({
+                    method: 'GET',
+                    url,
+                    region: (credentials.bedrockRegion as string).trim(),
+                    service: 'bedrock',
+                    accessKeyId: credentials.bedrockAccessKeyId as string,
+                    secretAccessKey: credentials.bedrockSecretAccessKey as string,
+                    sessionToken: (credentials.bedrockSessionToken as string | undefined) || undefined,
+                }),
+            };
+            break;
+        }
+        default:
+            throw new ProviderCheckError('unsupported provider');
+    }
+
+    const response = await request(options);
+    if (response.statusCode >= 400) {
+        throw new ProviderCheckError(String(response.statusCode));
+    }
+    return 'OK';
+};
+
+/**
+ * Checks the format of every configured provider section, then calls each provider once.
+ * Failures are reported per provider instead of stopping at the first one.
+ */
+export const checkConfiguredProviders = async (
+    credentials: IDataObject,
+    request: ProviderRequest,
+): Promise<ProviderCheckResult[]> => {
+    const results: ProviderCheckResult[] = [];
+
+    for (const provider of getConfiguredProviders(credentials)) {
+        try {
+            validateProviderFormat(provider, credentials);
+            const message = await pingProvider(provider, credentials, request);
+            results.push({ provider, ok: true, message });
+        } catch (error) {
+            results.push({
+                provider,
+                ok: false,
+                message: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    return results;
+};
+
+export const formatProviderCheckResults = (results: ProviderCheckResult[]): string =>
+    results.map((result) => `${PROVIDER_LABELS[result.provider]}: ${result.message}`).join(', ');
+
+export interface ProviderModel {
+    name: string;
+    value: string;
+    description?: string;
+}
+
+const AZURE_DEPLOYMENTS_API_VERSION = '2022-12-01';
+
+const VISION_MODEL_PATTERNS = [
+    /gpt-4o/,
+    /gpt-4\.1/,
+    /gpt-4-turbo/,
+    /gpt-4-vision/,
+    /gpt-5/,
+    /(^|[^a-z])o[134](-|$)/,
+    /claude/,
+    /gemini/,
+    /llama-?3\.2.*vision/,
+    /llama-?4/,
+    /pixtral/,
+    /mistral-(small|medium)/,
+    /phi-.*(vision|multimodal)/,
+    /nova-(lite|pro|premier)/,
+];
+
+const NON_VISION_MODEL_PATTERNS = [
+    /audio/,
+    /realtime/,
+    /transcribe/,
+    /tts/,
+    /embed/,
+    /search/,
+    /image-generation/,
+    /gpt-image/,
+    /dall-e/,
+    /whisper/,
+    /moderation/,
+    /instruct/,
+    /-live/,
+];
+
+// Heuristic on the model ID; providers other than Bedrock do not report input modalities
+export const isVisionCapableModel = (modelId: string): boolean => {
+    const id = modelId.toLowerCase();
+    return VISION_MODEL_PATTERNS.some((pattern) => pattern.test(id))
+        && !NON_VISION_MODEL_PATTERNS.some((pattern) => pattern.test(id));
+};
+
+const requestJson = async (request: ProviderRequest, options: ProviderRequestOptions): Promise<IDataObject> => {
+    const response = await request(options);
+    if (response.statusCode >= 400) {
+        throw new ProviderCheckError(`${options.url} returned ${response.statusCode}`);
+    }
+    const body = parseResponseBody(response.body);
+    if (!body || typeof body !== 'object') {
+        throw new ProviderCheckError(`${options.url} returned an unexpected response`);
+    }
+    return body as IDataObject;
+};
+
+const getDataIds = (body: IDataObject): string[] =>
+    ((body.data as IDataObject[] | undefined) ?? [])
+        .map((entry) => entry.id as string)
+        .filter((id) => typeof id === 'string' && id.length > 0);
+
+const listBedrockModels = async (credentials: IDataObject, request: ProviderRequest): Promise<ProviderModel[]> => {
+    if (!hasValue(credentials.bedrockAccessKeyId) || !hasValue(credentials.bedrockSecretAccessKey)) {
+        throw new ProviderCheckError('Bedrock model lookup needs an access key ID and secret access key');
+    }
+    const region = (credentials.bedrockRegion as string).trim();
+    const signedGet = async (url: string) => await requestJson(request, {
+        method: 'GET',
+        url,
+        headers: signAwsRequest({
+            method: 'GET',
+            url,
+            region,
+            service: 'bedrock',
+            accessKeyId: credentials.bedrockAccessKeyId as string,
+            secretAccessKey: credentials.bedrockSecretAccessKey as string,
+            sessionToken: (credentials.bedrockSessionToken as string | undefined) || undefined,
+        }),
+    });
+
+    const foundation = await signedGet(`https://bedrock.${region}.amazonaws.com/foundation-models`);
+    const visionModels = ((foundation.modelSummaries as IDataObject[] | undefined) ?? []).filter((model) =>
+        ((model.inputModalities as string[] | undefined) ?? []).includes('IMAGE')
+        && ((model.outputModalities as string[] | undefined) ?? []).includes('TEXT'),
+    );
+    const visionModelIds = new Set(visionModels.map((model) => model.modelId as string));
+
+    const models: ProviderModel[] = visionModels
+        .filter((model) => ((model.inferenceTypesSupported as string[] | undefined) ?? ['ON_DEMAND']).includes('ON_DEMAND'))
+        .map((model) => ({
+            name: `${model.modelName ?? model.modelId} (${model.providerName ?? 'Bedrock'})`,
+            value: model.modelId as string,
+            description: 'Foundation model',
+        }));
+
+    // Inference profiles are optional; older regions or restricted IAM policies may not allow listing them
+    try {
+        const profiles = await signedGet(`https://bedrock.${region}.amazonaws.com/inference-profiles?maxResults=1000`);
+        for (const profile of (profiles.inferenceProfileSummaries as IDataObject[] | undefined) ?? []) {
+            const profileModels = (profile.models as IDataObject[] | undefined) ?? [];
+            const isVision = profileModels.some((model) =>
+                visionModelIds.has(String(model.modelArn ?? '').split('/').pop() ?? ''),
+            );
+            if (isVision && profile.status !== 'DISABLED') {
+                models.push({
+                    name: `${profile.inferenceProfileName ?? profile.inferenceProfileId} (Inference Profile)`,
+                    value: (profile.inferenceProfileArn ?? profile.inferenceProfileId) as string,
+                    description: 'Inference profile',
+                });
+            }
+        }
+    } catch {
+        // Foundation models alone are still a useful list
+    }
+
+    return models;
+};
+
+/**
+ * Lists the vision-capable models or deployments available to the given provider credentials.
+ * Throws when the provider cannot be queried so callers can fall back to a static list.
+ */
+export const listProviderModels = async (
+    provider: LimescapeModelProvider,
+    credentials: IDataObject,
+    request: ProviderRequest,
+): Promise<ProviderModel[]> => {
+    validateProviderFormat(provider, credentials);
+    let models: ProviderModel[];
+
+    switch (provider) {
+        case LimescapeModelProvider.OPENAI: {
+            const body = await requestJson(request, {
+                method: 'GET',
+                url: 'https://api.openai.com/v1/models',
+                headers: { Authorization: `Bearer ${credentials.openaiApiKey}` },
+            });
+            models = getDataIds(body)
+                .filter(isVisionCapableModel)
+                .map((id) => ({ name: id, value: id }));
+            break;
+        }
+        case LimescapeModelProvider.AZURE: {
+            // The model field for Azure is the deployment name, so list deployments rather than base models
+            const body = await requestJson(request, {
+                method: 'GET',
+                url: `${trimTrailingSlash(credentials.azureEndpoint as string)}/openai/deployments?api-version=${AZURE_DEPLOYMENTS_API_VERSION}`,
+                headers: { 'api-key': credentials.azureApiKey },
+            });
+            models = ((body.data as IDataObject[] | undefined) ?? [])
+                .filter((deployment) => isVisionCapableModel(String(deployment.model ?? deployment.id ?? '')))
+                .map((deployment) => ({
+                    name: deployment.model ? `${deployment.id} (${deployment.model})` : String(deployment.id),
+                    value: deployment.id as string,
+                    description: 'Azure deployment',
+                }));
+            break;
+        }
+        case LimescapeModelProvider.AZURE_AIF: {
+            const body = await requestJson(request, {
+                method: 'GET',
+                url: `${trimTrailingSlash(credentials.azureAifBaseUrl as string)}/models`,
+                headers: {
+                    'api-key': credentials.azureAifApiKey,
+                    Authorization: `Bearer ${credentials.azureAifApiKey}`,
+                },
+            });
+            models = getDataIds(body)
+                .filter(isVisionCapableModel)
+                .map((id) => ({ name: id, value: id }));
+            break;
+        }
+        case LimescapeModelProvider.GOOGLE: {
+            const body = await requestJson(request, {
+                method: 'GET',
+                url: 'https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000',
+                headers: { 'x-goog-api-key': credentials.googleApiKey },
+            });
+            models = ((body.models as IDataObject[] | undefined) ?? [])
+                .filter((model) => ((model.supportedGenerationMethods as string[] | undefined) ?? []).includes('generateContent'))
+                .map((model) => ({
+                    id: String(model.name ?? '').replace(/^models\//, ''),
+                    displayName: model.displayName as string | undefined,
+                }))
+                .filter((model) => isVisionCapableModel(model.id))
+                .map((model) => ({ name: model.displayName || model.id, value: model.id }));
+            break;
+        }
+        case LimescapeModelProvider.BEDROCK:
+            models = await listBedrockModels(credentials, request);
+            break;
+        default:
+            throw new ProviderCheckError(`Live model lookup is not supported for ${PROVIDER_LABELS[provider] ?? provider}`);
+    }
+
+    return models.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export interface ProviderErrorDetails {
+    errorType: string;
+    httpStatus?: number;
+}
+
+const HTTP_STATUS_PATTERNS = [
+    /^\s*(\d{3})\b/,
+    /\bstatus(?:\s*code)?\s*[:=]?\s*(\d{3})\b/i,
+    /\bHTTP\s*(?:error\s*)?(\d{3})\b/i,
+];
+
+const toHttpStatus = (value: unknown): number | undefined => {
+    const status = Number(value);
+    return Number.isInteger(status) && status >= 100 && status <= 599 ? status : undefined;
+};
+
+/**
+ * Classifies an error thrown while processing a document. Provider SDKs expose the HTTP status in
+ * different places, so the message is used as a last resort.
+ */
+export const describeProviderError = (error: unknown): ProviderErrorDetails => {
+    if (!(error instanceof Error)) {
+        return { errorType: typeof error === 'string' ? 'Error' : typeof error };
+    }
+
+    const errorType = error.constructor?.name && error.constructor.name !== 'Object'
+        ? error.constructor.name
+        : error.name;
+    const source = error as Error & IDataObject;
+    const response = source.response as IDataObject | undefined;
+    const metadata = source.$metadata as IDataObject | undefined;
+
+    let httpStatus = toHttpStatus(source.status)
+        ?? toHttpStatus(source.statusCode)
+        ?? toHttpStatus(source.httpCode)
+        ?? toHttpStatus(response?.status)
+        ?? toHttpStatus(response?.statusCode)
+        ?? toHttpStatus(metadata?.httpStatusCode);
+
+    if (httpStatus === undefined) {
+        for (const pattern of HTTP_STATUS_PATTERNS) {
+            const match = pattern.exec(error.message);
+            httpStatus = toHttpStatus(match?.[1]);
+            if (httpStatus !== undefined) break;
+        }
+    }
+
+    return httpStatus === undefined ? { errorType } : { errorType, httpStatus };
+};
+
+// Rate limits, timeouts and server-side failures; another provider may well succeed
+const RETRYABLE_HTTP_STATUSES = [408, 429, 500, 502, 503, 504];
+
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_CONNECT_TIMEOUT'];
+
+const RETRYABLE_ERROR_TYPES = [
+    'RateLimitError',
+    'APIConnectionError',
+    'APIConnectionTimeoutError',
+    'InternalServerError',
+    'ThrottlingException',
+    'ServiceUnavailableException',
+    'ModelNotReadyException',
+];
+
+const RETRYABLE_MESSAGE = /rate.?limit|too many requests|quota|resource.?exhausted|overloaded|temporarily unavailable|service unavailable|throttl/i;
+
+/**
+ * Whether a provider error is worth retrying with a fallback model: rate limits, outages and
+ * network failures. Authentication, validation and content errors are not, because the next
+ * provider would most likely reject the same request.
+ */
+export const isRetryableProviderError = (error: unknown): boolean => {
+    if (!(error instanceof Error)) return false;
+    const { errorType, httpStatus } = describeProviderError(error);
+    if (httpStatus !== undefined) return RETRYABLE_HTTP_STATUSES.includes(httpStatus);
+
+    const source = error as Error & IDataObject;
+    const code = source.code ?? (source.cause as IDataObject | undefined)?.code;
+    if (typeof code === 'string' && RETRYABLE_ERROR_CODES.includes(code)) return true;
+    return RETRYABLE_ERROR_TYPES.includes(errorType) || RETRYABLE_MESSAGE.test(error.message);
+};
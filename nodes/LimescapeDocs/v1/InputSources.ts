@@ -0,0 +1,254 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Readable } from 'node:stream';
+
+/**
+ * Helpers for the Input Source option: reading documents from a URL, a local path or a base64
+ * field instead of a binary property.
+ *
+ * File types are detected from the file's first bytes, so a download named `download` or
+ * `file.bin` still gets the extension the attachment filter and Limescape Docs expect.
+ */
+
+export type InputSource = 'binary' | 'url' | 'filePath' | 'base64';
+
+export interface FileType {
+    extension: string;
+    mimeType: string;
+}
+
+export interface InputDocument {
+    data: Buffer;
+    fileName: string;
+    extension: string;
+    mimeType: string;
+}
+
+const MIME_TYPE_EXTENSIONS: Record<string, string> = {
+    'application/pdf': 'pdf',
+    'application/msword': 'doc',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+    'application/vnd.oasis.opendocument.text': 'odt',
+    'application/rtf': 'rtf',
+    'text/rtf': 'rtf',
+    'text/plain': 'txt',
+    'text/html': 'html',
+    'text/xml': 'xml',
+    'application/xml': 'xml',
+    'text/csv': 'csv',
+    'text/tab-separated-values': 'tsv',
+    'application/vnd.ms-excel': 'xls',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+    'application/vnd.oasis.opendocument.spreadsheet': 'ods',
+    'application/vnd.ms-powerpoint': 'ppt',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+    'application/vnd.oasis.opendocument.presentation': 'odp',
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/tiff': 'tiff',
+    'image/bmp': 'bmp',
+    'image/heic': 'heic',
+};
+
+const startsWith = (data: Buffer, signature: number[], offset = 0): boolean =>
+    data.length >= offset + signature.length && signature.every((byte, index) => data[offset + index] === byte);
+
+const ascii = (data: Buffer, start: number, end: number): string => data.subarray(start, end).toString('latin1');
+
+// Header sizes of the known BMP info header versions (BITMAPCOREHEADER up to BITMAPV5HEADER)
+const BMP_INFO_HEADER_SIZES = [12, 40, 52, 56, 64, 108, 124];
+
+// "BM" alone also starts plenty of text files, so the rest of the file header has to fit as well
+const isBmp = (data: Buffer): boolean => {
+    if (data.length < 26 || ascii(data, 0, 2) !== 'BM') return false;
+    const infoHeaderSize = data.readUInt32LE(14);
+    const pixelOffset = data.readUInt32LE(10);
+    return data.readUInt32LE(2) === data.length
+        && data.readUInt32LE(6) === 0
+        && BMP_INFO_HEADER_SIZES.includes(infoHeaderSize)
+        && pixelOffset >= 14 + infoHeaderSize
+        && pixelOffset <= data.length;
+};
+
+// Office Open XML and OpenDocument files are ZIP archives; their entry names tell them apart
+const detectZipType = (data: Buffer): FileType | undefined => {
+    // OpenDocument stores its mimetype uncompressed as the first entry
+    const odfMatch = /^mimetypeapplication\/(vnd\.oasis\.opendocument\.[a-z]+)/.exec(ascii(data, 30, 120));
+    if (odfMatch) {
+        const mimeType = `application/${odfMatch[1]}`;
+        return { extension: MIME_TYPE_EXTENSIONS[mimeType] ?? 'zip', mimeType };
+    }
+    // Entry names appear in the local headers and in the central directory at the end
+    const entries = ascii(data, 0, 64 * 1024) + ascii(data, Math.max(0, data.length - 64 * 1024), data.length);
+    if (entries.includes('word/')) return { extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' };
+    if (entries.includes('xl/')) return { extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' };
+    if (entries.includes('ppt/')) return { extension: 'pptx', mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation' };
+    return { extension: 'zip', mimeType: 'application/zip' };
+};
+
+/**
+ * Detects the file type from its magic bytes. Returns undefined for plain text and other formats
+ * without a signature.
+ */
+export const detectFileType = (data: Buffer): FileType | undefined => {
+    if (ascii(data, 0, 5) === '%PDF-') return { extension: 'pdf', mimeType: 'application/pdf' };
+    if (startsWith(data, [0x89, 0x50, 0x4e, 0x47])) return { extension: 'png', mimeType: 'image/png' };
+    if (startsWith(data, [0xff, 0xd8, 0xff])) return { extension: 'jpg', mimeType: 'image/jpeg' };
+    if (ascii(data, 0, 6) === 'GIF87a' || ascii(data, 0, 6) === 'GIF89a') return { extension: 'gif', mimeType: 'image/gif' };
+    if (ascii(data, 0, 4) === 'RIFF' && ascii(data, 8, 12) === 'WEBP') return { extension: 'webp', mimeType: 'image/webp' };
+    if (startsWith(data, [0x49, 0x49, 0x2a, 0x00]) || startsWith(data, [0x4d, 0x4d, 0x00, 0x2a])) return { extension: 'tiff', mimeType: 'image/tiff' };
+    if (isBmp(data)) return { extension: 'bmp', mimeType: 'image/bmp' };
+    if (ascii(data, 4, 8) === 'ftyp' && /^(heic|heix|mif1|msf1)$/.test(ascii(data, 8, 12))) return { extension: 'heic', mimeType: 'image/heic' };
+    if (ascii(data, 0, 5) === '{\\rtf') return { extension: 'rtf', mimeType: 'application/rtf' };
+    // Legacy Office (doc, xls, ppt) share one container format and cannot be told apart here
+    if (startsWith(data, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return undefined;
+    if (startsWith(data, [0x50, 0x4b, 0x03, 0x04])) return detectZipType(data);
+    return undefined;
+};
+
+// "application/pdf; charset=binary" -> "application/pdf"
+const normalizeMimeType = (mimeType: string | undefined): string =>
+    (mimeType ?? '').split(';')[0].trim().toLowerCase();
+
+export const getExtensionForMimeType = (mimeType: string | undefined): string | undefined =>
+    MIME_TYPE_EXTENSIONS[normalizeMimeType(mimeType)];
+
+const getMimeTypeForExtension = (extension: string): string | undefined =>
+    Object.keys(MIME_TYPE_EXTENSIONS).find((mimeType) => MIME_TYPE_EXTENSIONS[mimeType] === extension);
+
+// Extensions that name the same type, so "photo.jpeg" is not renamed to "photo.jpeg.jpg"
+const EXTENSION_ALIASES: Record<string, string> = { jpeg: 'jpg', tif: 'tiff', htm: 'html' };
+
+/**
+ * Settles the file name, extension and MIME type of a document. A type detected from the content
+ * wins; when the name's extension does not match it, the right extension is appended. The declared
+ * type (e.g. a Content-Type header) only fills in an extension for names without one, because
+ * text formats such as CSV are often served as text/plain.
+ */
+export const describeDocument = (data: Buffer, fileName: string, declaredMimeType?: string): InputDocument => {
+    const nameExtension = path.extname(fileName).substring(1).toLowerCase();
+    const declaredExtension = getExtensionForMimeType(declaredMimeType);
+    const detected = detectFileType(data)
+        ?? (declaredExtension && !nameExtension
+            ? { extension: declaredExtension, mimeType: normalizeMimeType(declaredMimeType) }
+            : undefined);
+
+    if (!detected) {
+        return {
+            data,
+            fileName,
+            extension: nameExtension,
+            mimeType: getMimeTypeForExtension(EXTENSION_ALIASES[nameExtension] ?? nameExtension)
+                ?? (normalizeMimeType(declaredMimeType) || 'application/octet-stream'),
+        };
+    }
+
+    const matches = (EXTENSION_ALIASES[nameExtension] ?? nameExtension) === detected.extension;
+    return {
+        data,
+        fileName: matches ? fileName : `${fileName}.${detected.extension}`,
+        extension: matches ? nameExtension : detected.extension,
+        mimeType: detected.mimeType,
+    };
+};
+
+/**
+ * File name from a Content-Disposition header, preferring the RFC 5987 `filename*` form.
+ */
+export const getFileNameFromContentDisposition = (header: string | undefined): string | undefined => {
+    if (!header) return undefined;
+    const encoded = /filename\*\s*=\s*(?:[\w-]+)?'[^']*'([^;]+)/i.exec(header);
+    if (encoded) {
+        try {
+            return path.basename(decodeURIComponent(encoded[1].trim()));
+        } catch {
+            // Fall through to the plain filename parameter
+        }
+    }
+    const plain = /filename\s*=\s*(?:"([^"]+)"|([^;]+))/i.exec(header);
+    const name = (plain?.[1] ?? plain?.[2])?.trim();
+    return name ? path.basename(name) : undefined;
+};
+
+export const getFileNameFromUrl = (url: URL): string | undefined => {
+    const segment = url.pathname.split('/').filter((part) => part.length > 0).pop();
+    if (!segment) return undefined;
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+};
+
+/**
+ * Parses a document URL; only http and https are accepted.
+ */
+export const parseDocumentUrl = (value: string): URL | undefined => {
+    try {
+        const url = new URL(value.trim());
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url : undefined;
+    } catch {
+        return undefined;
+    }
+};
+
+export const formatSize = (bytes: number): string => `${Math.round((bytes / (1024 * 1024)) * 100) / 100} MB`;
+
+/**
+ * Reads a stream into memory, failing as soon as it grows past `maxBytes` (0 means no limit).
+ */
+export const readStreamWithLimit = async (stream: Readable, maxBytes: number): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of stream) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string);
+        size += buffer.length;
+        if (maxBytes > 0 && size > maxBytes) {
+            stream.destroy();
+            throw new Error(`File is larger than the maximum of ${formatSize(maxBytes)}.`);
+        }
+        chunks.push(buffer);
+    }
+    return Buffer.concat(chunks);
+};
+
+/**
+ * Decodes a base64 string or `data:` URL. Whitespace (e.g. from line-wrapped base64) is ignored.
+ */
+export const decodeBase64 = (value: string): { data: Buffer; mimeType?: string } => {
+    const dataUrl = /^data:([^;,]*)(?:;[^,]*)?;base64,/i.exec(value.trim());
+    const payload = (dataUrl ? value.trim().slice(dataUrl[0].length) : value).replace(/\s+/g, '');
+    if (!payload || !/^[A-Za-z0-9+/_-]+={0,2}$/.test(payload)) {
+        throw new Error('Value is not valid base64.');
+    }
+    return { data: Buffer.from(payload, 'base64'), mimeType: dataUrl?.[1] || undefined };
+};
+
+// Symlinks are resolved on both sides, so a link inside an allowed directory cannot point out of it
+const resolveRealPath = (target: string): string => {
+    try {
+        return fs.realpathSync(target);
+    } catch {
+        return path.resolve(target);
+    }
+};
+
+export const parseAllowedDirectories = (value: string): string[] =>
+    value
+        .split(/[,;\n]/)
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0);
+
+/**
+ * Whether `filePath` is inside one of `directories` once `..` segments and symlinks are resolved.
+ */
+export const isPathAllowed = (filePath: string, directories: string[]): boolean => {
+    const target = resolveRealPath(filePath);
+    return directories.some((directory) => {
+        const relative = path.relative(resolveRealPath(directory), target);
+        // Compares the first segment, so entries named like "..notes" inside the directory are allowed
+        return relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+    });
+};
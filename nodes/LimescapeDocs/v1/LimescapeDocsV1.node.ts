@@ -1,6 +1,7 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
+import type { Readable } from 'node:stream';
 import type {
     IExecuteFunctions,
     INodeExecutionData,
@@ -11,6 +12,11 @@ import type {
     INodeTypeDescription,
     ILoadOptionsFunctions,
     INodePropertyOptions,
+    ICredentialTestFunctions,
+    ICredentialsDecrypted,
+    INodeCredentialTestResult,
+    INodeParameters,
+    IN8nHttpFullResponse,
 } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import {
@@ -22,6 +28,84 @@ import {
     ErrorMode as LimescapeErrorMode,
 } from 'limescape-docs';
 
+import {
+    checkConfiguredProviders,
+    describeProviderError,
+    formatProviderCheckResults,
+    isRetryableProviderError,
+    listProviderModels,
+    parseResponseBody,
+    PROVIDER_LABELS,
+    ProviderErrorDetails,
+} from './GenericFunctions';
+import {
+    buildClassificationPrompt,
+    buildClassificationSchema,
+    ClassificationCategory,
+    ClassificationResult,
+    getClassificationCategories,
+    parseClassification,
+    UNKNOWN_CATEGORY,
+} from './Classification';
+import {
+    buildSplitPrompt,
+    detectDocumentRanges,
+    DocumentRange,
+    extractPdfPages,
+    getPdfPageCount,
+    PAGE_SIGNALS_SCHEMA,
+    toPageSignals,
+} from './DocumentSplitter';
+import { createDocumentDeadline, DocumentDeadline, untilAborted } from './Cancellation';
+import {
+    ConfidenceExtraction,
+    ConfidenceReport,
+    ConfidenceSettings,
+    ConfidenceSource,
+    evaluateConfidence,
+    getFieldThresholds,
+    getTokenConfidence,
+    readExtractionLogprobs,
+    TokenConfidence,
+} from './Confidence';
+import { EmailHeaders, EmailParseOptions, getEmailFormat, parseEmail } from './Emails';
+import { ArchiveLimits, expandArchive, isZipArchive } from './Archives';
+import {
+    decodeBase64,
+    describeDocument,
+    formatSize,
+    getFileNameFromContentDisposition,
+    getFileNameFromUrl,
+    InputDocument,
+    InputSource,
+    isPathAllowed,
+    parseAllowedDirectories,
+    parseDocumentUrl,
+    readStreamWithLimit,
+} from './InputSources';
+import { estimateTokens, inspectPdf, PdfContentType } from './Preflight';
+import { estimateCost, estimateSplitCost, getPricingOverrides, ModelPrice, resolveModelPrice, roundCost, TokenUsage } from './Pricing';
+import { buildProvenancePrompt, buildProvenanceSchema, completeProvenance, ProvenanceMap, readProvenance } from './Provenance';
+import {
+    clearCache,
+    computeCacheKey,
+    DEFAULT_CACHE_DIRECTORY,
+    readCacheEntry,
+    writeCacheEntry,
+} from './ResultCache';
+import { RENDITION_FILES, RenditionFormat, renderRendition } from './Renditions';
+import { buildSchemaFromFields, getSchemaFields } from './SchemaBuilder';
+import { DocumentPreset, getPresetExtractionPrompt, getPresetSchema, PAGE_ZONES_SCHEMA } from './SchemaPresets';
+import { formatValidationErrors, SchemaValidationError, validateSchema } from './SchemaValidator';
+import {
+    ArrayHandling,
+    buildSpreadsheetTables,
+    ExportRecord,
+    SPREADSHEET_MIME_TYPES,
+    SpreadsheetFormat,
+    writeSpreadsheet,
+} from './SpreadsheetExport';
+
 // Helper function to safely create a temporary directory if needed
 const ensureDirSync = (dirPath: string) => {
     try {
@@ -95,6 +179,7 @@ const buildLLMParams = (input: IDataObject): Partial<LLMParams> => {
 const parseSchema = (
     node: IExecuteFunctions,
     rawSchema: string | object | undefined,
+    itemIndex = -1,
 ): Record<string, unknown> | undefined => {
     if (!rawSchema) return undefined;
 
@@ -109,7 +194,7 @@ const parseSchema = (
             throw new NodeOperationError(
                 node.getNode(),
                 `Invalid JSON schema provided: ${error instanceof Error ? error.message : String(error)}`,
-                { itemIndex: -1 },
+                { itemIndex },
             );
         }
     }
@@ -121,6 +206,44 @@ const parseSchema = (
     return schema as Record<string, unknown>;
 };
 
+type Operation = 'processDocument' | 'classify' | 'splitDocument' | 'preflight';
+
+type SchemaSource = 'json' | 'builder' | 'preset';
+
+// Builder fields on their own, or added to a copy of the preset schema
+const buildSchemaFromSource = (
+    schemaSource: SchemaSource,
+    schemaFields: unknown,
+    documentPreset: DocumentPreset,
+): Record<string, unknown> | undefined => {
+    const baseSchema = schemaSource === 'preset' ? getPresetSchema(documentPreset) : undefined;
+    return buildSchemaFromFields(getSchemaFields(schemaFields), baseSchema);
+};
+
+// Helper to resolve the schema from the raw JSON parameter, the field builder or a document type preset
+const resolveSchema = (
+    node: IExecuteFunctions,
+    schemaSource: SchemaSource,
+    rawSchema: string | object | undefined,
+    schemaFields: unknown,
+    documentPreset: DocumentPreset,
+    itemIndex = -1,
+): Record<string, unknown> | undefined => {
+    if (schemaSource === 'json') {
+        return parseSchema(node, rawSchema, itemIndex);
+    }
+
+    try {
+        return buildSchemaFromSource(schemaSource, schemaFields, documentPreset);
+    } catch (error) {
+        throw new NodeOperationError(
+            node.getNode(),
+            `Invalid schema fields: ${error instanceof Error ? error.message : String(error)}`,
+            { itemIndex },
+        );
+    }
+};
+
 // Helper to map n8n credentials to library ModelCredentials
 const mapCredentialsForProvider = (
     node: IExecuteFunctions,
@@ -207,6 +330,128 @@ const mapCredentialsForProvider = (
     });
 };
 
+type CredentialMode = 'combined' | 'perProvider';
+
+// Per-provider credential types use the same field names as limescapeDocsApi,
+// so mapCredentialsForProvider handles both credential styles
+const PROVIDER_CREDENTIAL_TYPES: Record<LimescapeModelProvider, string> = {
+    [LimescapeModelProvider.OPENAI]: 'limescapeDocsOpenAiApi',
+    [LimescapeModelProvider.AZURE]: 'limescapeDocsAzureOpenAiApi',
+    [LimescapeModelProvider.AZURE_AIF]: 'limescapeDocsAzureAiFoundryApi',
+    [LimescapeModelProvider.GOOGLE]: 'limescapeDocsGoogleGeminiApi',
+    [LimescapeModelProvider.VERTEX]: 'limescapeDocsGoogleVertexApi',
+    [LimescapeModelProvider.BEDROCK]: 'limescapeDocsAwsBedrockApi',
+};
+
+// Helper to load the credential data for one provider from the combined or the per-provider credential
+const getCredentialsForProvider = async (
+    node: IExecuteFunctions | ILoadOptionsFunctions,
+    credentialMode: CredentialMode,
+    provider: LimescapeModelProvider,
+): Promise<IDataObject> => {
+    if (credentialMode !== 'perProvider') {
+        return await node.getCredentials('limescapeDocsApi') as IDataObject;
+    }
+
+    const credentialType = PROVIDER_CREDENTIAL_TYPES[provider];
+    if (!credentialType) {
+        throw new NodeOperationError(node.getNode(), `Unsupported provider type in getCredentialsForProvider: ${provider}`, {
+            itemIndex: -1,
+        });
+    }
+    try {
+        return await node.getCredentials(credentialType) as IDataObject;
+    } catch (error) {
+        throw new NodeOperationError(
+            node.getNode(),
+            `No ${PROVIDER_LABELS[provider]} credential selected. Select a 'Limescape Docs ${PROVIDER_LABELS[provider]}' credential or switch Credential Type to Combined Credential.`,
+            { itemIndex: -1, description: error instanceof Error ? error.message : String(error) },
+        );
+    }
+};
+
+const OPENAI_MODELS: INodePropertyOptions[] = [
+    { name: 'GPT-5.1', value: 'gpt-5.1' },
+    { name: 'GPT-5.1 Mini', value: 'gpt-5.1-mini' },
+    { name: 'GPT-5.1 Standard', value: 'gpt-5.1-standard' },
+    { name: 'GPT-4.1', value: 'gpt-4.1' },
+    { name: 'GPT-4.1 Mini', value: 'gpt-4.1-mini' },
+    { name: 'GPT-4o Mini', value: 'gpt-4o-mini' },
+    { name: 'GPT-4o', value: 'gpt-4o' },
+];
+
+const GEMINI_MODELS: INodePropertyOptions[] = [
+    { name: 'Gemini 2.5 Pro', value: 'gemini-2.5-pro' },
+    { name: 'Gemini 2.5 Flash', value: 'gemini-2.5-flash' },
+    { name: 'Gemini 3 Pro Preview', value: 'gemini-3-pro-preview' },
+];
+
+const CLAUDE_MODELS: INodePropertyOptions[] = [
+    { name: 'Claude 4.5 Sonnet', value: 'anthropic.claude-4.5-sonnet-20250929-v1:0' },
+    { name: 'Claude 4.1 Sonnet', value: 'anthropic.claude-4.1-sonnet-20250810-v1:0' },
+    { name: 'Claude 4 Opus', value: 'anthropic.claude-4-opus-20250415-v1:0' },
+    { name: 'Claude 4 Haiku', value: 'anthropic.claude-4-haiku-20250601-v1:0' },
+];
+
+// Fallback lists used when the provider cannot be queried for its models
+const getStaticModelsForProvider = (provider: string): INodePropertyOptions[] => {
+    if (provider === LimescapeModelProvider.OPENAI || provider === LimescapeModelProvider.AZURE) {
+        return OPENAI_MODELS;
+    }
+    if (provider === LimescapeModelProvider.GOOGLE) {
+        return GEMINI_MODELS;
+    }
+    if (provider === LimescapeModelProvider.AZURE_AIF) {
+        return [...OPENAI_MODELS, ...CLAUDE_MODELS];
+    }
+    if (provider === LimescapeModelProvider.VERTEX) {
+        return [
+            ...GEMINI_MODELS,
+            { name: 'Claude 4.5 Sonnet (Bedrock)', value: 'anthropic.claude-4.5-sonnet-20250929-v1:0' },
+            { name: 'Claude 4.1 Sonnet (Bedrock)', value: 'anthropic.claude-4.1-sonnet-20250810-v1:0' },
+        ];
+    }
+    if (provider === LimescapeModelProvider.BEDROCK) {
+        return CLAUDE_MODELS;
+    }
+    return [{ name: 'GPT-4o Mini', value: 'gpt-4o-mini' }];
+};
+
+const STATIC_EXTRACTION_MODELS: INodePropertyOptions[] = [
+    { name: 'Claude 4.5 Sonnet (Bedrock)', value: 'anthropic.claude-4.5-sonnet-20250929-v1:0' },
+    { name: 'Gemini 2.5 Pro (Google)', value: 'gemini-2.5-pro' },
+    { name: 'Gemini 3 Pro Preview (Google)', value: 'gemini-3-pro-preview' },
+    { name: 'GPT-4o (OpenAI/Azure)', value: 'gpt-4o' },
+    { name: 'GPT-5.1 (OpenAI/Azure)', value: 'gpt-5.1' },
+];
+
+// Helper to query the provider for its vision-capable models, falling back to a static list
+const loadModelOptions = async (
+    context: ILoadOptionsFunctions,
+    provider: LimescapeModelProvider,
+    fallback: INodePropertyOptions[],
+): Promise<INodePropertyOptions[]> => {
+    try {
+        const credentialMode = (context.getCurrentNodeParameter('authentication') ?? 'combined') as CredentialMode;
+        const credentials = await getCredentialsForProvider(context, credentialMode, provider);
+        const models = await listProviderModels(provider, credentials, async ({ method, url, headers, body }) => {
+            const response = await context.helpers.httpRequest({
+                method,
+                url,
+                headers,
+                body,
+                returnFullResponse: true,
+                ignoreHttpStatusErrors: true,
+                timeout: 15000,
+            });
+            return { statusCode: response.statusCode, body: parseResponseBody(response.body) };
+        });
+        return models.length > 0 ? models : fallback;
+    } catch {
+        return fallback;
+    }
+};
+
 interface BuildArgsInput {
     filePath: string;
     modelProvider: LimescapeModelProvider;
@@ -303,199 +548,2872 @@ const buildLimescapeArgsForItem = (input: BuildArgsInput): LimescapeDocsArgs =>
     return args;
 };
 
-/**
- * Version description for LimescapeDocs V1
- *
- * Light versioning (minor updates):
- * - Use a version array to list supported minor versions for this major implementation.
- * - Example: version: [1.21, 1.22, 1.23]
- * - Use `@version` in displayOptions when you need minor-specific field behavior.
- *
- * Full versioning (major updates):
- * - The entry node maps versions to implementations via `nodeVersions`.
- * - Example: 1.21/1.22/1.23 → LimescapeDocsV1, 2/2.1 → LimescapeDocsV2.
- */
-const versionDescription: INodeTypeDescription = {
-    displayName: 'Limescape Docs',
-    name: 'limescapeDocs',
-    icon: 'file:limescape-logo-square.svg',
-    group: ['transform'],
-    version: [1, 1.21, 1.22, 1.23],
-    subtitle: '={{$parameter["operation"]}}',
-    description: 'OCR & Document Extraction using AI models via Limescape Docs',
-    defaults: {
-        name: 'Limescape Docs',
-    },
-    inputs: ['main'],
-    outputs: ['main'],
-    credentials: [
-        {
-            name: 'limescapeDocsApi',
-            required: true,
+// Parameters that shape the node's outputs or the run as a whole are read once; these are read per item
+interface ItemSettings {
+    binaryPropertyName: string;
+    binaryPropertyPattern: string;
+    documentUrl: string;
+    documentFilePath: string;
+    base64Field: string;
+    // Input Source Options
+    inputFileName: string;
+    maxFileSize: number;
+    allowedDirectories: string[];
+    downloadTimeout: number;
+    filterMode: string;
+    extensions: string[];
+    // Set when Expand ZIP Archives is on
+    archiveLimits?: ArchiveLimits;
+    // Set when Expand Emails is on
+    emailOptions?: EmailParseOptions;
+    modelProvider: LimescapeModelProvider;
+    // Custom Model when set, otherwise the selected model
+    model: string;
+    schemaSource: SchemaSource;
+    schema?: Record<string, unknown>;
+    processingOptions: IDataObject;
+    extractionOptions: IDataObject;
+    extractionProvider?: LimescapeModelProvider;
+    llmParams: Partial<LLMParams>;
+    extractionLlmParams: Partial<LLMParams>;
+    gemini3Options: IDataObject;
+    validationOptions: IDataObject;
+    // What is sent to Limescape Docs; Classify and Split Document bring their own schema and prompt
+    callSchema?: Record<string, unknown>;
+    callProcessingOptions: IDataObject;
+    callExtractionOptions: IDataObject;
+    confidenceThreshold: number;
+    // Leading PDF pages sent by Classify; 0 for the other operations
+    classificationPages: number;
+    // Process Document with a schema only; the call schema is then wrapped to return sources
+    includeProvenance: boolean;
+    // Set when Route Low Confidence to Review is on
+    confidence?: ConfidenceSettings;
+    fallbackModels: ModelFallback[];
+    // Per Document Timeout in milliseconds; 0 means no limit
+    documentTimeout: number;
+    modelPrice?: ModelPrice;
+}
+
+interface ItemSettingsContext {
+    operation: Operation;
+    inputSource: InputSource;
+    binaryInputMode: BinaryInputMode;
+    categories: ClassificationCategory[];
+    reviewLowConfidence: boolean;
+    pricingOverrides: Record<string, ModelPrice>;
+    // Resolved schemas by their raw parameter values, so a schema shared by all items is parsed once
+    schemaCache: Map<string, Record<string, unknown> | undefined>;
+}
+
+const checkMaxTokens = (node: IExecuteFunctions, params: IDataObject, context: string, itemIndex: number) => {
+    if (params && params.maxTokens !== undefined && params.maxTokens !== null) {
+        const val = Number(params.maxTokens);
+        if (isNaN(val) || val < 1024 || val > 16383) {
+            throw new NodeOperationError(node.getNode(), `${context}: Max Tokens must be between 1024 and 16383.`, { itemIndex });
         }
-    ],
-    properties: [
-        // Operation (kept simple as only one is defined)
-        {
-            displayName: 'Operation',
-            name: 'operation',
-            type: 'hidden',
-            default: 'processDocument',
-        },
+    }
+};
 
-        // --- Core Parameters ---
-        // eslint-disable-next-line n8n-nodes-base/node-param-default-missing
-        {
-            displayName: 'Model Provider',
-            name: 'modelProvider',
-            type: 'options',
-            options: [
-                { name: 'OpenAI', value: LimescapeModelProvider.OPENAI },
-                { name: 'Azure', value: LimescapeModelProvider.AZURE },
-                { name: 'Azure AI Foundry', value: LimescapeModelProvider.AZURE_AIF },
-                { name: 'Google (API Key)', value: LimescapeModelProvider.GOOGLE },
-                { name: 'Google Vertex', value: LimescapeModelProvider.VERTEX },
-                { name: 'AWS Bedrock', value: LimescapeModelProvider.BEDROCK },
-            ],
-            default: LimescapeModelProvider.AZURE,
-            required: true,
-            description: 'The LLM provider to use for processing',
-            hint: 'Select the AI provider (e.g., OpenAI). Default: OpenAI. Required field.',
-        },
-        {
-            displayName: 'Is Gemini 3',
-            name: 'isGemini3',
-            type: 'hidden',
-            default: '={{ ($parameter["customModel"] || $parameter["model"] || "").toLowerCase().startsWith("gemini-3") }}',
-        },
-        {
-            displayName: 'Model Name or ID',
-            name: 'model',
-            type: 'options',
-            options: [],
-            typeOptions: {
-                loadOptionsMethod: 'getModelsForProvider',
-                loadOptionsDependsOn: ['modelProvider'],
-            },
-            default: 'gpt-5.1-standard',
-            description: 'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
-            hint: 'Filtered by provider. Can be overridden by Custom Model.',
-        },
-        {
-            displayName: 'Custom Model',
-            name: 'customModel',
-            type: 'string',
-            default: '',
-            description: 'Overrides the Model selection. Use the exact model identifier required by the provider/library.',
-            placeholder: 'e.g., gpt-5.1 or specific Azure deployment ID',
-            hint: 'Optional: Enter a specific model ID to override the Model selection. Leave empty to use the selected Model.',
-        },
-        {
-            displayName: 'Gemini 3 Options',
-            name: 'gemini3Options',
-            type: 'collection',
-            placeholder: 'Add Gemini 3 Option',
-            default: {},
-            description: 'Options specific to Google/Vertex Gemini 3 models',
-            hint: 'Available only for Gemini 3 Pro Preview models.',
-            displayOptions: {
-                show: {
-                    isGemini3: [true],
-                },
-            },
-            options: [
-                {
-                    displayName: 'Thinking Level',
-                    name: 'thinkingLevel',
-                    type: 'options',
-                    options: [
-                        { name: 'Low', value: 'low' },
-                        { name: 'High', value: 'high' },
-                    ],
-                    default: 'low',
-                    description: 'Controls depth of reasoning for Gemini 3 models',
-                    hint: 'Applied only for Gemini 3 models; availability may vary by region/project.',
-                },
-                {
-                    displayName: 'Media Resolution',
-                    name: 'mediaResolution',
-                    type: 'options',
-                    options: [
-                        { name: 'Low', value: 'low' },
-                        { name: 'Medium', value: 'medium' },
-                        { name: 'High', value: 'high' },
-                    ],
-                    default: 'medium',
-                    description: 'Controls image resolution used by Gemini 3 models',
-                    hint: 'Higher resolutions may improve OCR quality at higher cost.',
-                },
-            ],
-        },
-        
-        {
-            displayName: 'Schema (Optional)',
-            name: 'schema',
-            type: 'json',
-            default: '{"type":"object","properties":{"pages":{"type":"array","description":"List of pages extracted from the document.","items":{"type":"object","properties":{"page_number":{"type":"integer","description":"The sequential number of the page."},"zones":{"type":"array","description":"List of distinct spatial zones (text blocks, tables, or images) found on this page.","items":{"type":"object","properties":{"type":{"type":"string","enum":["text_block","table","image","handwriting","header","footer"],"description":"The classification of the content in this zone."},"content_verbatim":{"type":"string","description":"For text/tables: The exact text found in this zone, preserving newlines and spacing. For images: null."},"image_description":{"type":"string","description":"For images: A detailed visual description of the image content. For text: null."},"position":{"type":"string","enum":["top_left","top_center","top_right","middle_left","center","middle_right","bottom_left","bottom_center","bottom_right"],"description":"The approximate spatial location of this zone on the page."},"confidence_score":{"type":"number","description":"A score between 0 and 1 indicating how confident the model is in the extraction."}},"required":["type","content_verbatim","position"]}}},"required":["page_number","zones"]}},"document_summary":{"type":"string","description":"A brief 2-3 sentence summary of what this entire document represents."}},"required":["pages","document_summary"]}',
-            description: 'JSON schema for structured data extraction (if supported by model/prompt)',
-            placeholder: '{\n  "type": "object",\n  "properties": {\n    "invoice_number": { "type": "string" }\n  }\n}',
-            typeOptions: {
-                rows: 5,
-            },
-            hint: 'Optional: Provide a JSON schema for structured output. Default: {}.',
-        },
-        {
-            displayName: 'Attachment Filter',
-            name: 'attachmentFilter',
-            type: 'collection',
-            placeholder: 'Add filter',
-            default: {},
-            description: 'Filter which attachments to process based on file extension',
-            hint: 'Optional: Define rules to include or exclude attachments based on their file extension.',
-            options: [
-                {
-                    displayName: 'Filter Mode',
-                    name: 'filterMode',
-                    type: 'options',
-                    options: [
-                        { name: 'Include (only Process These Extensions)', value: 'include' },
-                        { name: 'Exclude (Skip These Extensions)', value: 'exclude' },
-                    ],
-                    default: 'include',
-                    description: 'Choose whether to include or exclude the listed extensions',
-                    hint: 'Select if the extensions list is for inclusion or exclusion. Default: include.',
-                },
-                {
-                    displayName: 'Extensions',
-                    name: 'extensions',
-                    type: 'string',
-                    default: 'pdf,doc,docx,odt,ott,rtf,txt,html,htm,xml,wps,wpd,xls,xlsx,ods,ots,csv,tsv,ppt,pptx,odp,otp,jpg,jpeg,png,heic',
-                    description: 'Comma-separated file extensions to include or exclude (no dot, e.g. pdf, docx). You can enter any extension.',
-                    hint: 'Enter comma-separated extensions (no dots). Default includes common document types.',
-                },
-            ],
-        },
+const checkImageDensity = (node: IExecuteFunctions, processingOptions: IDataObject, itemIndex: number) => {
+    if (processingOptions && processingOptions.imageDensity !== undefined) {
+        const density = Number(processingOptions.imageDensity);
+        if (
+            processingOptions.imageDensity === null ||
+            processingOptions.imageDensity === '' ||
+            isNaN(density) ||
+            density === 0 ||
+            density < 70
+        ) {
+            throw new NodeOperationError(node.getNode(), 'Processing Options: Image Density (DPI) must be a number and at least 70.', { itemIndex });
+        }
+    }
+};
 
-        // --- Behavior ---
-        {
-            displayName: 'Input Binary Field',
-            name: 'binaryPropertyName',
-            type: 'string',
-            default: 'data',
-            required: true,
-            description: 'Name of the binary property in the input item containing the file data',
-            hint: 'Specify the field name holding the file data in the input item. Default: data. Required field.',
-        },
+const readItemSettings = (node: IExecuteFunctions, itemIndex: number, context: ItemSettingsContext): ItemSettings => {
+    const { operation, inputSource, binaryInputMode, categories } = context;
+    const modelProvider = node.getNodeParameter('modelProvider', itemIndex) as LimescapeModelProvider;
+    const model = (node.getNodeParameter('customModel', itemIndex, '') as string)
+        || node.getNodeParameter('model', itemIndex) as string;
 
-        // --- Optional Settings Grouped ---
-        {
-            displayName: 'Processing Options',
-            name: 'processingOptions',
-            type: 'collection',
-            placeholder: 'Add Processing Option',
-            default: {},
-            description: 'Optional settings to control the OCR and document handling process',
-            hint: 'Configure advanced OCR and document processing behaviors.',
+    const schemaSource = node.getNodeParameter('schemaSource', itemIndex, 'json') as SchemaSource;
+    const rawSchema = schemaSource === 'json'
+        ? node.getNodeParameter('schema', itemIndex, '') as string | object
+        : '';
+    const schemaFields = schemaSource !== 'json'
+        ? node.getNodeParameter('schemaFields', itemIndex, {}) as IDataObject
+        : {};
+    const documentPreset = schemaSource === 'preset'
+        ? node.getNodeParameter('documentPreset', itemIndex, 'invoice') as DocumentPreset
+        : 'invoice';
+    const schemaKey = JSON.stringify([schemaSource, rawSchema, schemaFields, documentPreset]);
+    if (!context.schemaCache.has(schemaKey)) {
+        context.schemaCache.set(schemaKey, resolveSchema(node, schemaSource, rawSchema, schemaFields, documentPreset, itemIndex));
+    }
+    const schema = context.schemaCache.get(schemaKey);
+
+    const processingOptions = node.getNodeParameter('processingOptions', itemIndex, {}) as IDataObject;
+    // Copied, because the preset prompt is filled in below
+    const extractionOptions = { ...node.getNodeParameter('extractionOptions', itemIndex, {}) as IDataObject };
+    // A preset's extraction prompt applies unless the user wrote their own
+    const presetExtractionPrompt = schemaSource === 'preset' ? getPresetExtractionPrompt(documentPreset) : undefined;
+    if (presetExtractionPrompt && !extractionOptions.extractionPrompt) {
+        extractionOptions.extractionPrompt = presetExtractionPrompt;
+    }
+    const llmParameters = node.getNodeParameter('llmParameters', itemIndex, {}) as IDataObject;
+    const extractionLlmParameters = node.getNodeParameter('extractionLlmParameters', itemIndex, {}) as IDataObject;
+
+    // --- Parameter Validation Safeguards ---
+    checkMaxTokens(node, llmParameters, 'LLM Parameters', itemIndex);
+    checkMaxTokens(node, extractionLlmParameters, 'Extraction LLM Parameters', itemIndex);
+    checkImageDensity(node, processingOptions, itemIndex);
+
+    let callSchema = schema;
+    let callProcessingOptions = processingOptions;
+    let callExtractionOptions = extractionOptions;
+    let confidenceThreshold = 0;
+    let classificationPages = 0;
+    if (operation === 'classify') {
+        classificationPages = Math.max(1, Math.floor(Number(node.getNodeParameter('classificationPages', itemIndex, 2))));
+        confidenceThreshold = Number(node.getNodeParameter('confidenceThreshold', itemIndex, 0.5));
+        // Skip OCR and send the leading pages with a label schema; PDFs are cut down before the call
+        callSchema = buildClassificationSchema(categories);
+        callProcessingOptions = {
+            ...processingOptions,
+            extractOnly: true,
+            extractPageByPage: false,
+            extractPerPage: [],
+            pagesToConvertAsImages: '',
+        };
+        callExtractionOptions = { extractionPrompt: buildClassificationPrompt(categories, classificationPages) };
+    } else if (operation === 'splitDocument') {
+        const splitHints = (node.getNodeParameter('splitHints', itemIndex, '') as string).trim();
+        // Read every page and extract boundary signals page by page
+        callSchema = PAGE_SIGNALS_SCHEMA;
+        callProcessingOptions = {
+            ...processingOptions,
+            extractPageByPage: true,
+            extractPerPage: [],
+            pagesToConvertAsImages: '',
+        };
+        callExtractionOptions = { extractionPrompt: buildSplitPrompt(splitHints) };
+    }
+
+    const includeProvenance = operation === 'processDocument'
+        && !!schema
+        && node.getNodeParameter('includeProvenance', itemIndex, false) as boolean;
+    if (includeProvenance && schema) {
+        callSchema = buildProvenanceSchema(schema);
+        // Per-page keys name top-level schema properties, which now sit under "data"
+        callProcessingOptions = { ...processingOptions, extractPerPage: [] };
+        callExtractionOptions = {
+            ...extractionOptions,
+            extractionPrompt: buildProvenancePrompt(extractionOptions.extractionPrompt as string | undefined),
+        };
+    }
+
+    const attachmentFilter = node.getNodeParameter('attachmentFilter', itemIndex, {}) as IDataObject;
+    const archiveOptions = node.getNodeParameter('expandArchives', itemIndex, false) as boolean
+        ? node.getNodeParameter('archiveOptions', itemIndex, {}) as IDataObject
+        : undefined;
+    const emailOptions = node.getNodeParameter('expandEmails', itemIndex, false) as boolean
+        ? node.getNodeParameter('emailOptions', itemIndex, {}) as IDataObject
+        : undefined;
+    const confidenceOptions = context.reviewLowConfidence
+        ? node.getNodeParameter('confidenceOptions', itemIndex, {}) as IDataObject
+        : undefined;
+    const inputSourceOptions = inputSource !== 'binary'
+        ? node.getNodeParameter('inputSourceOptions', itemIndex, {}) as IDataObject
+        : {};
+
+    return {
+        binaryPropertyName: inputSource === 'binary' && binaryInputMode === 'single'
+            ? node.getNodeParameter('binaryPropertyName', itemIndex) as string
+            : '',
+        binaryPropertyPattern: inputSource === 'binary' && binaryInputMode === 'pattern'
+            ? node.getNodeParameter('binaryPropertyPattern', itemIndex, '') as string
+            : '',
+        documentUrl: inputSource === 'url' ? node.getNodeParameter('documentUrl', itemIndex, '') as string : '',
+        documentFilePath: inputSource === 'filePath' ? node.getNodeParameter('documentFilePath', itemIndex, '') as string : '',
+        base64Field: inputSource === 'base64' ? node.getNodeParameter('base64Field', itemIndex, 'data') as string : '',
+        inputFileName: ((inputSourceOptions.fileName as string | undefined) ?? '').trim(),
+        maxFileSize: Math.max(0, Number(inputSourceOptions.maxFileSize ?? 50)) * 1024 * 1024,
+        allowedDirectories: parseAllowedDirectories((inputSourceOptions.allowedDirectories as string | undefined) ?? ''),
+        downloadTimeout: Math.max(1, Number(inputSourceOptions.downloadTimeout ?? 60)) * 1000,
+        filterMode: (attachmentFilter.filterMode as string) || 'include',
+        extensions: typeof attachmentFilter.extensions === 'string'
+            ? attachmentFilter.extensions.split(',').map(e => e.trim().toLowerCase()).filter(e => !!e)
+            : [],
+        archiveLimits: archiveOptions
+            ? {
+                maxDepth: Math.max(0, Math.floor(Number(archiveOptions.maxDepth ?? 2))),
+                maxFiles: Math.max(1, Math.floor(Number(archiveOptions.maxFiles ?? 500))),
+                maxTotalSize: Math.max(1, Number(archiveOptions.maxTotalSize ?? 500)) * 1024 * 1024,
+                maxCompressionRatio: Math.max(1, Number(archiveOptions.maxCompressionRatio ?? 100)),
+            }
+            : undefined,
+        emailOptions: emailOptions
+            ? {
+                includeBody: emailOptions.includeBody !== false,
+                includeInlineImages: emailOptions.includeInlineImages === true,
+            }
+            : undefined,
+        modelProvider,
+        model,
+        schemaSource,
+        schema,
+        processingOptions,
+        extractionOptions,
+        extractionProvider: extractionOptions.extractionModelProvider as LimescapeModelProvider | undefined,
+        llmParams: buildLLMParams(llmParameters),
+        extractionLlmParams: buildLLMParams(extractionLlmParameters),
+        gemini3Options: node.getNodeParameter('gemini3Options', itemIndex, {}) as IDataObject,
+        validationOptions: node.getNodeParameter('validationOptions', itemIndex, {}) as IDataObject,
+        callSchema,
+        callProcessingOptions,
+        callExtractionOptions,
+        confidenceThreshold,
+        classificationPages,
+        includeProvenance,
+        fallbackModels: operation !== 'preflight'
+            ? getModelFallbacks(node.getNodeParameter('fallbackModels', itemIndex, {}))
+            : [],
+        documentTimeout: Math.max(0, Number(processingOptions.documentTimeout ?? 0)) * 1000,
+        confidence: confidenceOptions
+            ? {
+                source: (confidenceOptions.confidenceSource as ConfidenceSource | undefined) ?? 'both',
+                confidenceField: (confidenceOptions.confidenceField as string | undefined)?.trim() || 'confidence_score',
+                documentThreshold: Math.min(1, Math.max(0, Number(confidenceOptions.documentThreshold ?? 0.7))),
+                fieldThresholds: getFieldThresholds(node.getNodeParameter('fieldConfidenceThresholds', itemIndex, {})),
+                reviewWhenMissing: confidenceOptions.reviewWhenMissing === true,
+            }
+            : undefined,
+        // Preflight estimate; processed files are priced per model in estimateFileCost
+        modelPrice: resolveModelPrice(model, context.pricingOverrides),
+    };
+};
+
+type OutputMode = 'aggregated' | 'perFile' | 'perPage';
+
+// One entry of Fallback Models; without an extraction provider the fallback model extracts too
+interface ModelFallback {
+    provider: LimescapeModelProvider;
+    model: string;
+    extractionProvider?: LimescapeModelProvider;
+    extractionModel?: string;
+}
+
+// The provider and model pairs that produced a file's result
+interface ServedBy {
+    provider: LimescapeModelProvider;
+    model: string;
+    extractionProvider: LimescapeModelProvider;
+    extractionModel: string | null;
+    // 0 for the main model, otherwise the position in Fallback Models
+    fallback: number;
+}
+
+const getModelFallbacks = (value: unknown): ModelFallback[] =>
+    (((value as IDataObject | undefined)?.fallback ?? []) as IDataObject[])
+        .map((fallback) => ({
+            provider: fallback.provider as LimescapeModelProvider,
+            model: String(fallback.model ?? '').trim(),
+            extractionProvider: (fallback.extractionProvider as LimescapeModelProvider | undefined) || undefined,
+            extractionModel: String(fallback.extractionModel ?? '').trim() || undefined,
+        }))
+        .filter((fallback) => !!fallback.provider && fallback.model.length > 0);
+
+type BinaryInputMode = 'single' | 'all' | 'pattern';
+
+type LimescapeDocsResult = Awaited<ReturnType<typeof limescapeDocs>>;
+
+interface PageResult {
+    pageNumber: number;
+    markdown: string;
+    extracted?: unknown;
+    provenance?: ProvenanceMap;
+}
+
+interface FileResult {
+    markdown: string;
+    pages: PageResult[];
+    // Array of per-page extractions when extractPageByPage is on, otherwise the document extraction
+    extracted: unknown;
+    // Entries contributed to aggregatedExtracted
+    extractedData: unknown[];
+    // Shaped like extracted and extractedData; set when Include Field Provenance is on
+    provenance?: ProvenanceMap | ProvenanceMap[];
+    provenanceData?: ProvenanceMap[];
+    // Field scores from the extraction log probabilities, one entry per extraction
+    tokenConfidence?: TokenConfidence[];
+    confidence?: ConfidenceReport;
+    summary?: string;
+    completionTime: number;
+    inputTokens: number;
+    outputTokens: number;
+    // Share of the OCR step, when Limescape Docs reports tokens per page
+    ocrTokens?: TokenUsage;
+    pagesProcessed: number;
+    validation?: ValidationReport;
+    // Served from the result cache; token counts and completion time are reported as 0
+    cached?: boolean;
+    servedBy?: ServedBy;
+    // USD; null when no price is known for the model
+    estimatedCost?: number | null;
+}
+
+interface ValidationReport {
+    valid: boolean;
+    errors: SchemaValidationError[];
+    repairAttempts: number;
+}
+
+// Outcome of one input file; kept in input order so every output mode can be shaped from it
+interface SplitDocument extends DocumentRange {
+    markdown: string;
+    binary: IBinaryData;
+}
+
+// Only PDFs and images have a known page count; other fields are null for the rest
+interface PreflightReport {
+    mimeType: string;
+    fileSize: number;
+    pageCount: number | null;
+    encrypted: boolean | null;
+    contentType: PdfContentType | 'image' | 'unknown';
+    textPages: number | null;
+    scannedPages: number | null;
+    // Pages from Pages To Convert As Images; they change how pages are converted, not how many are sent
+    forcedPages: number[] | null;
+    // Every page is sent, so this is the page count
+    pagesToProcess: number | null;
+    estimatedInputTokens: number | null;
+    estimatedOutputTokens: number | null;
+    estimatedCost: number | null;
+    model: string;
+}
+
+interface DocumentErrorDetails extends ProviderErrorDetails {
+    provider: LimescapeModelProvider;
+    model: string;
+    extractionProvider?: LimescapeModelProvider;
+    extractionModel?: string;
+}
+
+// Set for the body and attachments of an expanded email
+interface EmailRelation extends EmailHeaders {
+    // The .eml or .msg file the part came from
+    file: string;
+    part: 'body' | 'attachment';
+    // File names of every attachment of the email, so each part can find its siblings
+    attachments: string[];
+}
+
+// Where a file was unpacked from, when it is not the item's own file
+interface FileOrigin {
+    // Path inside the archive the file was unpacked from, e.g. "scans.zip/2024/invoice.pdf"
+    archivePath?: string;
+    email?: EmailRelation;
+}
+
+interface DocumentOutcome extends FileOrigin {
+    itemIndex: number;
+    binaryPropertyName: string;
+    fileName: string;
+    fileType: string;
+    status: 'success' | 'error' | 'skipped';
+    result?: FileResult;
+    error?: string;
+    errorDetails?: DocumentErrorDetails;
+    classification?: ClassificationResult;
+    splitDocuments?: SplitDocument[];
+    preflight?: PreflightReport;
+    processingIssues: string[];
+}
+
+// Supports comma-separated wildcard patterns such as "attachment_*, invoice?"
+const matchesBinaryPropertyPattern = (propertyName: string, pattern: string): boolean => {
+    return pattern
+        .split(',')
+        .map((p) => p.trim())
+        .filter((p) => p.length > 0)
+        .some((p) => {
+            const escaped = p.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+            return new RegExp(`^${escaped}$`).test(propertyName);
+        });
+};
+
+// Runs tasks through a bounded pool of workers. Results keep the order of `tasks`.
+const runWithConcurrency = async <T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T[]> => {
+    const results: T[] = new Array(tasks.length);
+    const workerCount = Math.min(Math.max(1, Math.floor(Number(limit) || 1)), tasks.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+        while (nextIndex < tasks.length) {
+            const index = nextIndex++;
+            results[index] = await tasks[index]();
+        }
+    };
+
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+};
+
+// Helper to list the binary properties of an item that should be processed, in item order
+const resolveBinaryPropertyNames = (
+    item: INodeExecutionData,
+    mode: BinaryInputMode,
+    binaryPropertyName: string,
+    pattern: string,
+): string[] => {
+    if (mode === 'single') {
+        return [binaryPropertyName];
+    }
+
+    const names = Object.keys(item.binary ?? {});
+    if (mode === 'pattern') {
+        return names.filter((name) => matchesBinaryPropertyPattern(name, pattern));
+    }
+    return names;
+};
+
+// Reads a dot-separated field such as "document.content" from the item JSON
+const getJsonField = (json: IDataObject, field: string): unknown =>
+    field.split('.').reduce<unknown>(
+        (value, key) => (value && typeof value === 'object' ? (value as IDataObject)[key] : undefined),
+        json,
+    );
+
+/**
+ * Loads the file of one item for the URL, File Path and Base64 Field input sources. The result is
+ * handled like a binary property from then on: same attachment filter, temp file and outputs.
+ */
+const loadInputDocument = async (
+    node: IExecuteFunctions,
+    itemIndex: number,
+    inputSource: Exclude<InputSource, 'binary'>,
+    settings: ItemSettings,
+    cancelSignal?: AbortSignal,
+): Promise<InputDocument> => {
+    const { maxFileSize } = settings;
+    const checkSize = (size: number) => {
+        if (maxFileSize > 0 && size > maxFileSize) {
+            throw new NodeOperationError(
+                node.getNode(),
+                `File is ${formatSize(size)}, larger than the Max File Size of ${formatSize(maxFileSize)}.`,
+                { itemIndex },
+            );
+        }
+    };
+
+    if (inputSource === 'url') {
+        const url = parseDocumentUrl(settings.documentUrl);
+        if (!url) {
+            throw new NodeOperationError(node.getNode(), `Document URL '${settings.documentUrl}' is not a valid HTTP(S) URL.`, { itemIndex });
+        }
+        const response = await node.helpers.httpRequest({
+            method: 'GET',
+            url: url.toString(),
+            encoding: 'stream',
+            returnFullResponse: true,
+            timeout: settings.downloadTimeout,
+            abortSignal: cancelSignal,
+        }) as IN8nHttpFullResponse;
+        const body = response.body as Readable;
+        // Refuse early when the server announces the size; the stream limit covers the rest
+        const contentLength = Number(response.headers['content-length']);
+        if (contentLength > 0) {
+            try {
+                checkSize(contentLength);
+            } catch (error) {
+                body.destroy();
+                throw error;
+            }
+        }
+
+        let data: Buffer;
+        try {
+            data = await readStreamWithLimit(body, maxFileSize);
+        } catch (error) {
+            throw new NodeOperationError(
+                node.getNode(),
+                `Download from ${url.host} failed: ${error instanceof Error ? error.message : String(error)}`,
+                { itemIndex },
+            );
+        }
+        const fileName = settings.inputFileName
+            || getFileNameFromContentDisposition(response.headers['content-disposition'] as string | undefined)
+            || getFileNameFromUrl(url)
+            || 'document';
+        return describeDocument(data, fileName, response.headers['content-type'] as string | undefined);
+    }
+
+    if (inputSource === 'filePath') {
+        const filePath = settings.documentFilePath.trim();
+        if (!filePath) {
+            throw new NodeOperationError(node.getNode(), `File Path is empty for item ${itemIndex}.`, { itemIndex });
+        }
+        if (settings.allowedDirectories.length === 0) {
+            throw new NodeOperationError(
+                node.getNode(),
+                'File Path: Add at least one directory to Allowed Directories in Input Source Options.',
+                { itemIndex },
+            );
+        }
+        // n8n's own file access restriction applies on top of the node's allow-list
+        const restrictedTo = parseAllowedDirectories(process.env.N8N_RESTRICT_FILE_ACCESS_TO ?? '');
+        if (!isPathAllowed(filePath, settings.allowedDirectories) || (restrictedTo.length > 0 && !isPathAllowed(filePath, restrictedTo))) {
+            throw new NodeOperationError(node.getNode(), `File path '${filePath}' is outside the allowed directories.`, { itemIndex });
+        }
+        const stats = await fs.promises.stat(filePath);
+        if (!stats.isFile()) {
+            throw new NodeOperationError(node.getNode(), `File path '${filePath}' is not a file.`, { itemIndex });
+        }
+        checkSize(stats.size);
+        return describeDocument(await fs.promises.readFile(filePath), settings.inputFileName || path.basename(filePath));
+    }
+
+    const value = getJsonField(node.getInputData()[itemIndex]?.json ?? {}, settings.base64Field);
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new NodeOperationError(node.getNode(), `No base64 string in field '${settings.base64Field}' for item ${itemIndex}.`, { itemIndex });
+    }
+    let decoded: { data: Buffer; mimeType?: string };
+    try {
+        decoded = decodeBase64(value);
+    } catch (error) {
+        throw new NodeOperationError(
+            node.getNode(),
+            `Field '${settings.base64Field}' of item ${itemIndex}: ${error instanceof Error ? error.message : String(error)}`,
+            { itemIndex },
+        );
+    }
+    checkSize(decoded.data.length);
+    return describeDocument(decoded.data, settings.inputFileName || 'document', decoded.mimeType);
+};
+
+// With provenance, extractions are unwrapped here; the sources are completed by completeFileProvenance
+const toFileResult = (result: LimescapeDocsResult, extractPageByPage: boolean, includeProvenance = false): FileResult => {
+    const resultPages = Array.isArray(result.pages) ? result.pages : [];
+    const pages: PageResult[] = resultPages.map((page, index) => {
+        const pageNumber = typeof page.page === 'number' ? page.page : index + 1;
+        if (!includeProvenance || !extractPageByPage || page.extracted === undefined) {
+            return { pageNumber, markdown: page.content ?? '', extracted: page.extracted };
+        }
+        const { data, provenance } = readProvenance(page.extracted, pageNumber);
+        return { pageNumber, markdown: page.content ?? '', extracted: data, provenance };
+    });
+    const documentExtraction = includeProvenance && !extractPageByPage && result.extracted
+        ? readProvenance(result.extracted)
+        : { data: result.extracted, provenance: undefined };
+
+    const extractedData: unknown[] = [];
+    if (extractPageByPage && Array.isArray(result.pages)) {
+        // Per-page extraction: keep each page's extracted data
+        for (const page of pages) {
+            if (page.extracted) {
+                extractedData.push(page.extracted);
+            }
+        }
+    } else if (documentExtraction.data) {
+        // Standard extraction: keep the full document extraction
+        extractedData.push(documentExtraction.data);
+    }
+
+    // With provenance the data sits under "data" in the JSON the model wrote
+    const root = includeProvenance ? 'data' : undefined;
+    const logprobs = readExtractionLogprobs(result.logprobs);
+    const tokenConfidence: TokenConfidence[] = extractPageByPage
+        ? logprobs.map((entry, index) => ({
+            pageNumber: entry.page ?? pages[index]?.pageNumber ?? null,
+            fields: getTokenConfidence(entry.tokens, root),
+        }))
+        : logprobs.length > 0
+            ? [{ pageNumber: null, fields: getTokenConfidence(logprobs.flatMap((entry) => entry.tokens), root) }]
+            : [];
+
+    return {
+        markdown: result.pages && Array.isArray(result.pages)
+            ? result.pages.map(page => page.content).join("\n\n")
+            : "[No page content returned]",
+        pages,
+        extracted: extractPageByPage ? extractedData : (documentExtraction.data ?? null),
+        extractedData,
+        ...(documentExtraction.provenance ? { provenance: documentExtraction.provenance } : {}),
+        ...(tokenConfidence.length > 0 ? { tokenConfidence } : {}),
+        summary: result.summary
+            ? (typeof result.summary === 'string' ? result.summary : JSON.stringify(result.summary))
+            : undefined,
+        completionTime: (result.completionTime as number | undefined) || 0,
+        inputTokens: (result.inputTokens as number | undefined) || 0,
+        outputTokens: (result.outputTokens as number | undefined) || 0,
+        ...(resultPages.some((page) => typeof page.inputTokens === 'number' || typeof page.outputTokens === 'number')
+            ? {
+                ocrTokens: {
+                    inputTokens: resultPages.reduce((sum, page) => sum + (page.inputTokens ?? 0), 0),
+                    outputTokens: resultPages.reduce((sum, page) => sum + (page.outputTokens ?? 0), 0),
+                },
+            }
+            : {}),
+        pagesProcessed: resultPages.length,
+    };
+};
+
+// Gives every extracted leaf a provenance entry, using the OCR markdown of the first run
+const completeFileProvenance = (fileResult: FileResult, extractPageByPage: boolean): void => {
+    if (extractPageByPage) {
+        for (const page of fileResult.pages) {
+            if (page.extracted) {
+                page.provenance = completeProvenance(page.extracted, page.provenance ?? {}, [page], page.pageNumber);
+            }
+        }
+        fileResult.provenanceData = fileResult.pages.filter((page) => !!page.extracted).map((page) => page.provenance ?? {});
+        fileResult.provenance = fileResult.provenanceData;
+    } else {
+        const cited = Array.isArray(fileResult.provenance) ? {} : fileResult.provenance ?? {};
+        fileResult.provenance = fileResult.extracted
+            ? completeProvenance(fileResult.extracted, cited, fileResult.pages)
+            : {};
+        fileResult.provenanceData = fileResult.extracted ? [fileResult.provenance] : [];
+    }
+};
+
+// The extractions confidence is checked on: the document, or each page in page-by-page mode
+const getConfidenceExtractions = (fileResult: FileResult, extractPageByPage: boolean): ConfidenceExtraction[] => {
+    const findFields = (pageNumber: number | null) =>
+        fileResult.tokenConfidence?.find((entry) => entry.pageNumber === pageNumber)?.fields;
+    if (extractPageByPage) {
+        return fileResult.pages
+            .filter((page) => page.extracted !== null && page.extracted !== undefined)
+            .map((page) => ({ pageNumber: page.pageNumber, data: page.extracted, tokenConfidence: findFields(page.pageNumber) }));
+    }
+    return fileResult.extracted !== null && fileResult.extracted !== undefined
+        ? [{ pageNumber: null, data: fileResult.extracted, tokenConfidence: findFields(null) }]
+        : [];
+};
+
+const formatConfidenceReport = (report: ConfidenceReport): IDataObject => ({
+    documentConfidence: report.documentConfidence,
+    needsReview: report.needsReview,
+    failures: report.failures as unknown as IDataObject[],
+});
+
+// Library arguments that do not change the result, left out of the cache key
+const CACHE_IGNORED_ARGS = [
+    'filePath',
+    'credentials',
+    'extractionCredentials',
+    'outputDir',
+    'tempDir',
+    'cleanup',
+    'concurrency',
+    'maxRetries',
+    'maxTesseractWorkers',
+];
+
+const getCacheSettings = (operation: Operation, args: LimescapeDocsArgs, validationOptions: IDataObject): IDataObject => {
+    const effectiveArgs = { ...args } as IDataObject;
+    for (const key of CACHE_IGNORED_ARGS) {
+        delete effectiveArgs[key];
+    }
+    return {
+        operation,
+        args: effectiveArgs,
+        validation: operation === 'processDocument'
+            ? { validateExtraction: validationOptions.validateExtraction === true, repairAttempts: Number(validationOptions.repairAttempts ?? 0) }
+            : null,
+    };
+};
+
+const toCachedFileResult = (fileResult: FileResult): FileResult => ({
+    ...fileResult,
+    completionTime: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    ocrTokens: undefined,
+    cached: true,
+});
+
+interface CostEstimate {
+    // USD; null when no price is known for the OCR model
+    cost: number | null;
+    unpricedModel?: string;
+    // Set when part of the tokens may be priced at the wrong model's rate
+    approximateReason?: string;
+}
+
+/**
+ * Estimates the cost of a file. `extractionModel` is undefined when extraction runs on the OCR
+ * model and null when Limescape Docs picks the extraction model. With a separate extraction
+ * model, the OCR tokens reported per page are priced at the OCR model's rate and the rest
+ * (extraction and repairs) at the extraction model's; without per-page counts or an extraction
+ * price, every token is priced at the OCR model's rate and the estimate is flagged.
+ */
+const estimateFileCost = (
+    fileResult: FileResult,
+    model: string,
+    extractionModel: string | null | undefined,
+    extractOnly: boolean,
+    pricingOverrides: Record<string, ModelPrice>,
+): CostEstimate => {
+    const total = { inputTokens: fileResult.inputTokens, outputTokens: fileResult.outputTokens };
+    const ocrPrice = resolveModelPrice(model, pricingOverrides);
+    if (extractionModel === undefined || extractionModel === model) {
+        return ocrPrice ? { cost: estimateCost(ocrPrice, total.inputTokens, total.outputTokens) } : { cost: null, unpricedModel: model };
+    }
+
+    const extractionPrice = extractionModel ? resolveModelPrice(extractionModel, pricingOverrides) : undefined;
+    // Extract Only skips OCR, so every token is an extraction token
+    if (extractOnly) {
+        return extractionPrice
+            ? { cost: estimateCost(extractionPrice, total.inputTokens, total.outputTokens) }
+            : { cost: null, unpricedModel: extractionModel ?? 'the extraction model picked by Limescape Docs' };
+    }
+    if (!ocrPrice) {
+        return { cost: null, unpricedModel: model };
+    }
+    if (!extractionPrice) {
+        return {
+            cost: estimateCost(ocrPrice, total.inputTokens, total.outputTokens),
+            approximateReason: extractionModel
+                ? `no price known for extraction model '${extractionModel}', so its tokens are priced at the rate of '${model}'`
+                : `the extraction model is picked by Limescape Docs, so its tokens are priced at the rate of '${model}'`,
+        };
+    }
+    if (!fileResult.ocrTokens) {
+        return {
+            cost: estimateCost(ocrPrice, total.inputTokens, total.outputTokens),
+            approximateReason: `Limescape Docs did not report the OCR tokens per page, so extraction tokens are priced at the rate of '${model}'`,
+        };
+    }
+    return { cost: estimateSplitCost(ocrPrice, extractionPrice, total, fileResult.ocrTokens) };
+};
+
+const toServedBy = (args: LimescapeDocsArgs, fallback: number): ServedBy => ({
+    provider: args.modelProvider as LimescapeModelProvider,
+    model: args.model as string,
+    extractionProvider: (args.extractionModelProvider ?? args.modelProvider) as LimescapeModelProvider,
+    // The library picks the model when only an extraction provider is set
+    extractionModel: args.extractionModel ?? (args.extractionModelProvider ? null : args.model as string),
+    fallback,
+});
+
+const describeServedBy = (servedBy: ServedBy): string => {
+    const ocr = `${PROVIDER_LABELS[servedBy.provider] ?? servedBy.provider} ${servedBy.model}`;
+    const extraction = `${PROVIDER_LABELS[servedBy.extractionProvider] ?? servedBy.extractionProvider} ${servedBy.extractionModel ?? '(default model)'}`;
+    return servedBy.extractionProvider === servedBy.provider && servedBy.extractionModel === servedBy.model
+        ? ocr
+        : `${ocr} (extraction: ${extraction})`;
+};
+
+// Fallback models whose last attempt failed, so error outputs name the model that raised the error
+const failedFallbacks = new WeakMap<Error, ServedBy>();
+
+// Undefined when a provider of the fallback has no usable credentials
+const withFallbackModel = (
+    args: LimescapeDocsArgs,
+    fallback: ModelFallback,
+    modelCredentials: Map<LimescapeModelProvider, ModelCredentials>,
+): LimescapeDocsArgs | undefined => {
+    const credentials = modelCredentials.get(fallback.provider);
+    const extractionCredentials = fallback.extractionProvider ? modelCredentials.get(fallback.extractionProvider) : credentials;
+    if (!credentials || !extractionCredentials) return undefined;
+
+    const fallbackArgs: LimescapeDocsArgs = {
+        ...args,
+        modelProvider: fallback.provider,
+        model: fallback.model,
+        credentials,
+    };
+    delete fallbackArgs.extractionModelProvider;
+    delete fallbackArgs.extractionModel;
+    delete fallbackArgs.extractionCredentials;
+    if (fallback.extractionProvider) {
+        fallbackArgs.extractionModelProvider = fallback.extractionProvider;
+        fallbackArgs.extractionCredentials = extractionCredentials;
+    }
+    if (fallback.extractionModel) {
+        fallbackArgs.extractionModel = fallback.extractionModel;
+    }
+    return fallbackArgs;
+};
+
+/**
+ * Calls Limescape Docs with the main model and, on rate limits, outages and network errors, with
+ * each fallback model in turn. Returns the arguments that succeeded, so repairs use the same model.
+ * A passed deadline ends the attempts; the remaining fallback models are not tried, and an
+ * abandoned attempt that still finishes is passed to `onLateResult`.
+ */
+const callWithFallback = async (
+    args: LimescapeDocsArgs,
+    fallbacks: ModelFallback[],
+    modelCredentials: Map<LimescapeModelProvider, ModelCredentials>,
+    fileName: string,
+    processingIssues: string[],
+    deadline: DocumentDeadline,
+    onLateResult?: (result: LimescapeDocsResult, args: LimescapeDocsArgs) => void,
+): Promise<{ result: LimescapeDocsResult; args: LimescapeDocsArgs; servedBy: ServedBy }> => {
+    const attempts = [
+        { args, fallback: 0, label: '' },
+        ...fallbacks.map((fallback, index) => ({
+            args: withFallbackModel(args, fallback, modelCredentials),
+            fallback: index + 1,
+            label: `${PROVIDER_LABELS[fallback.provider] ?? fallback.provider} ${fallback.model}`,
+        })),
+    ];
+
+    let lastError: unknown;
+    for (let index = 0; index < attempts.length; index++) {
+        const attempt = attempts[index];
+        if (!attempt.args) {
+            processingIssues.push(`Skipped fallback model ${attempt.fallback} (${attempt.label}) for ${fileName}: No credentials for its provider.`);
+            continue;
+        }
+        const servedBy = toServedBy(attempt.args, attempt.fallback);
+        try {
+            const attemptArgs = attempt.args;
+            const result = await untilAborted(
+                () => limescapeDocs({ ...attemptArgs, errorMode: LimescapeErrorMode.THROW }),
+                deadline,
+                (late) => onLateResult?.(late, attemptArgs),
+            );
+            return { result, args: attempt.args, servedBy };
+        } catch (error) {
+            if (attempt.fallback > 0 && error instanceof Error) {
+                failedFallbacks.set(error, servedBy);
+            }
+            if (deadline.signal.aborted || !isRetryableProviderError(error) || index === attempts.length - 1) throw error;
+            lastError = error;
+            processingIssues.push(`${describeServedBy(servedBy)} failed for ${fileName}: ${error instanceof Error ? error.message : String(error)}. Trying the next fallback model.`);
+        }
+    }
+    // Only reached when the remaining fallback models were skipped
+    throw lastError;
+};
+
+// Validates the document extraction, or each page's extraction when extractPageByPage is on
+const validateFileResult = (
+    schema: Record<string, unknown>,
+    fileResult: FileResult,
+    extractPageByPage: boolean,
+): SchemaValidationError[] => {
+    if (!extractPageByPage) {
+        if (fileResult.extracted === null || fileResult.extracted === undefined) {
+            return [{ path: '/', message: 'no extracted data returned' }];
+        }
+        return validateSchema(fileResult.extracted, schema);
+    }
+
+    const errors: SchemaValidationError[] = [];
+    for (const page of fileResult.pages) {
+        if (page.extracted === null || page.extracted === undefined) {
+            errors.push({ path: '/', message: 'no extracted data returned', pageNumber: page.pageNumber });
+            continue;
+        }
+        for (const error of validateSchema(page.extracted, schema)) {
+            errors.push({ ...error, pageNumber: page.pageNumber });
+        }
+    }
+    return errors;
+};
+
+const MAX_REPAIR_PROMPT_ERRORS = 50;
+
+const buildRepairPrompt = (basePrompt: string | undefined, errors: SchemaValidationError[]): string => {
+    const lines = formatValidationErrors(errors.slice(0, MAX_REPAIR_PROMPT_ERRORS)).map((line) => `- ${line}`);
+    return [
+        basePrompt,
+        'The previous extraction did not match the required JSON schema. Extract the data again and fix these validation errors:',
+        ...lines,
+    ].filter((part) => !!part).join('\n');
+};
+
+// Merges a repair extraction into the original result; OCR markdown is kept from the first run.
+// In page-by-page mode only the failing pages are taken over, so valid pages keep their extraction.
+const applyRepairResult = (fileResult: FileResult, repair: FileResult, extractPageByPage: boolean, failingPages: Set<number>): void => {
+    if (extractPageByPage) {
+        const repairedPages = new Set<number>();
+        for (const repairedPage of repair.pages) {
+            const page = fileResult.pages.find((p) => p.pageNumber === repairedPage.pageNumber);
+            if (page && failingPages.has(page.pageNumber) && repairedPage.extracted !== undefined) {
+                repairedPages.add(page.pageNumber);
+                page.extracted = repairedPage.extracted;
+                page.provenance = repairedPage.provenance;
+            }
+        }
+        fileResult.extractedData = fileResult.pages.map((page) => page.extracted).filter((extracted) => !!extracted);
+        fileResult.extracted = fileResult.extractedData;
+        fileResult.tokenConfidence = [
+            ...(fileResult.tokenConfidence ?? []).filter((entry) => entry.pageNumber === null || !repairedPages.has(entry.pageNumber)),
+            ...(repair.tokenConfidence ?? []).filter((entry) => entry.pageNumber !== null && repairedPages.has(entry.pageNumber)),
+        ];
+    } else if (repair.extracted !== null && repair.extracted !== undefined) {
+        fileResult.extracted = repair.extracted;
+        fileResult.extractedData = repair.extractedData;
+        fileResult.provenance = repair.provenance;
+        fileResult.tokenConfidence = repair.tokenConfidence;
+    }
+    fileResult.completionTime += repair.completionTime;
+    fileResult.inputTokens += repair.inputTokens;
+    fileResult.outputTokens += repair.outputTokens;
+};
+
+/**
+ * Validates a file's extraction and, when repair attempts are configured, re-asks the
+ * extraction model (extract-only) with the errors. Each attempt re-extracts the whole document;
+ * in page-by-page mode only the pages that failed take the repaired extraction.
+ */
+const validateAndRepair = async (
+    args: LimescapeDocsArgs,
+    schema: Record<string, unknown>,
+    fileResult: FileResult,
+    maxRepairAttempts: number,
+    includeProvenance: boolean,
+    deadline: DocumentDeadline,
+    onLateResult?: (result: LimescapeDocsResult, args: LimescapeDocsArgs) => void,
+): Promise<ValidationReport> => {
+    const extractPageByPage = Boolean(args.extractPageByPage);
+    let errors = validateFileResult(schema, fileResult, extractPageByPage);
+    let repairAttempts = 0;
+
+    while (errors.length > 0 && repairAttempts < maxRepairAttempts) {
+        repairAttempts++;
+        const repairArgs: LimescapeDocsArgs = {
+            ...args,
+            extractOnly: true,
+            extractionPrompt: buildRepairPrompt(args.extractionPrompt, errors),
+            errorMode: LimescapeErrorMode.THROW,
+        };
+        const failingPages = new Set(errors.map((error) => error.pageNumber).filter((page): page is number => page !== undefined));
+
+        const repair = await untilAborted(() => limescapeDocs(repairArgs), deadline, (late) => onLateResult?.(late, repairArgs));
+        applyRepairResult(fileResult, toFileResult(repair, extractPageByPage, includeProvenance), extractPageByPage, failingPages);
+        errors = validateFileResult(schema, fileResult, extractPageByPage);
+    }
+
+    return { valid: errors.length === 0, errors, repairAttempts };
+};
+
+const formatValidationReport = (validation: ValidationReport): IDataObject => ({
+    valid: validation.valid,
+    errors: formatValidationErrors(validation.errors),
+    repairAttempts: validation.repairAttempts,
+});
+
+// Only files unpacked from an archive or email carry these
+const getOriginFields = (outcome: DocumentOutcome): IDataObject => ({
+    ...(outcome.archivePath ? { archivePath: outcome.archivePath } : {}),
+    ...(outcome.email ? { email: { ...outcome.email } } : {}),
+});
+
+const buildErrorItem = (node: IExecuteFunctions, outcome: DocumentOutcome): INodeExecutionData => {
+    const errorMessage = outcome.error ?? 'Unknown error';
+    return {
+        json: {
+            message: errorMessage,
+            itemIndex: outcome.itemIndex,
+            binaryPropertyName: outcome.binaryPropertyName,
+            ...getOriginFields(outcome),
+            file: outcome.fileName,
+        },
+        error: new NodeOperationError(node.getNode(), errorMessage, { itemIndex: outcome.itemIndex }),
+        itemIndex: outcome.itemIndex,
+        pairedItem: { item: outcome.itemIndex },
+    };
+};
+
+// Item for the dedicated Error output. It carries no `error` property, so n8n's own
+// "Continue (using error output)" routing leaves it on this output.
+const buildErrorOutputItem = (outcome: DocumentOutcome): INodeExecutionData => {
+    const details = outcome.errorDetails;
+    return {
+        json: {
+            message: outcome.error ?? 'Unknown error',
+            errorType: details?.errorType ?? 'Error',
+            provider: details?.provider ?? null,
+            model: details?.model ?? null,
+            ...(details?.extractionProvider ? { extractionProvider: details.extractionProvider } : {}),
+            ...(details?.extractionModel ? { extractionModel: details.extractionModel } : {}),
+            httpStatus: details?.httpStatus ?? null,
+            fileName: outcome.fileName,
+            fileType: outcome.fileType,
+            itemIndex: outcome.itemIndex,
+            binaryPropertyName: outcome.binaryPropertyName,
+            ...getOriginFields(outcome),
+            processingIssues: outcome.processingIssues,
+        },
+        pairedItem: { item: outcome.itemIndex },
+    };
+};
+
+// Original behaviour: errors first, then a single item combining every processed file
+const buildAggregatedOutput = (
+    node: IExecuteFunctions,
+    outcomes: DocumentOutcome[],
+    itemCount: number,
+): INodeExecutionData[] => {
+    const output: INodeExecutionData[] = [];
+    const filenames: string[] = [];
+    const filetypes: string[] = [];
+    const summaries: string[] = [];
+    const processingIssues: string[] = [];
+    const extractedData: unknown[] = [];
+    // Parallel to extractedData; only output when at least one file has provenance
+    const provenanceData: ProvenanceMap[] = [];
+    let hasProvenance = false;
+    const sources: IDataObject[] = [];
+    const validationResults: IDataObject[] = [];
+    const confidenceResults: IDataObject[] = [];
+    let markdown = '';
+    let completionTime = 0;
+    let inputTokens = 0;
+    let outputTokens = 0;
+    let pagesProcessed = 0;
+    let processedFileCount = 0;
+    let cachedFileCount = 0;
+    let estimatedCost: number | null = null;
+
+    for (const outcome of outcomes) {
+        if (outcome.status === 'error') {
+            output.push(buildErrorItem(node, outcome));
+        } else if (outcome.status === 'success' && outcome.result) {
+            const result = outcome.result;
+            if (markdown.length > 0) { markdown += "\n\n---\n\n"; }
+            markdown += `### Attachment Start: ${outcome.fileName} (Type: ${outcome.fileType})\n\n`;
+            markdown += result.markdown;
+            markdown += `\n\n### Attachment End: ${outcome.fileName}\n\n`;
+
+            filenames.push(outcome.fileName);
+            filetypes.push(outcome.fileType);
+            sources.push({
+                fileName: outcome.fileName,
+                itemIndex: outcome.itemIndex,
+                binaryPropertyName: outcome.binaryPropertyName,
+                ...getOriginFields(outcome),
+                estimatedCost: result.estimatedCost ?? null,
+                ...(result.servedBy ? { servedBy: result.servedBy } : {}),
+                ...(result.cached ? { cached: true } : {}),
+            });
+            if (result.cached) {
+                cachedFileCount++;
+            }
+            if (typeof result.estimatedCost === 'number') {
+                estimatedCost = roundCost((estimatedCost ?? 0) + result.estimatedCost);
+            }
+            completionTime += result.completionTime;
+            inputTokens += result.inputTokens;
+            outputTokens += result.outputTokens;
+            pagesProcessed += result.pagesProcessed;
+            extractedData.push(...result.extractedData);
+            provenanceData.push(...(result.provenanceData ?? result.extractedData.map(() => ({}))));
+            hasProvenance = hasProvenance || !!result.provenanceData;
+            if (result.summary) {
+                summaries.push(result.summary);
+            }
+            if (result.validation) {
+                validationResults.push({
+                    fileName: outcome.fileName,
+                    itemIndex: outcome.itemIndex,
+                    binaryPropertyName: outcome.binaryPropertyName,
+                    ...getOriginFields(outcome),
+                    ...formatValidationReport(result.validation),
+                });
+            }
+            if (result.confidence) {
+                confidenceResults.push({
+                    fileName: outcome.fileName,
+                    itemIndex: outcome.itemIndex,
+                    binaryPropertyName: outcome.binaryPropertyName,
+                    ...getOriginFields(outcome),
+                    ...formatConfidenceReport(result.confidence),
+                });
+            }
+            processedFileCount++;
+        }
+        processingIssues.push(...outcome.processingIssues);
+    }
+
+    if (processedFileCount > 0 || processingIssues.length > 0) {
+        const json: IDataObject = {
+            processedFiles: processedFileCount,
+            filenames: filenames.join('; '),
+            filetypes: filetypes.join('; '),
+            markdown,
+            totalCompletionTime: completionTime,
+            totalInputTokens: inputTokens,
+            totalOutputTokens: outputTokens,
+            totalPagesProcessed: pagesProcessed,
+            totalEstimatedCost: estimatedCost,
+            aggregatedExtracted: extractedData as IDataObject[],
+            aggregatedSummaries: summaries.join('\n---\n'),
+            processingIssues,
+            sources,
+        };
+        if (hasProvenance) {
+            json.aggregatedProvenance = provenanceData as IDataObject[];
+        }
+        if (validationResults.length > 0) {
+            json.validationResults = validationResults;
+        }
+        if (confidenceResults.length > 0) {
+            json.confidenceResults = confidenceResults;
+        }
+        if (cachedFileCount > 0) {
+            json.cachedFiles = cachedFileCount;
+        }
+        output.push({ json });
+    } else if (itemCount === 0) {
+        output.push({ json: { message: "No input items received." } });
+    }
+
+    return output;
+};
+
+// One item per input file (perFile) or per returned page (perPage), paired to its source item
+const buildSplitOutput = (
+    node: IExecuteFunctions,
+    outcomes: DocumentOutcome[],
+    perPage: boolean,
+): INodeExecutionData[] => {
+    const output: INodeExecutionData[] = [];
+
+    for (const outcome of outcomes) {
+        const pairedItem = { item: outcome.itemIndex };
+
+        if (outcome.status === 'error') {
+            output.push(buildErrorItem(node, outcome));
+            continue;
+        }
+
+        if (outcome.status === 'skipped' || !outcome.result) {
+            output.push({
+                json: {
+                    fileName: outcome.fileName,
+                    fileType: outcome.fileType,
+                    itemIndex: outcome.itemIndex,
+                    binaryPropertyName: outcome.binaryPropertyName,
+                    ...getOriginFields(outcome),
+                    skipped: true,
+                    processingIssues: outcome.processingIssues,
+                },
+                pairedItem,
+            });
+            continue;
+        }
+
+        const result = outcome.result;
+        if (!perPage) {
+            output.push({
+                json: {
+                    fileName: outcome.fileName,
+                    fileType: outcome.fileType,
+                    itemIndex: outcome.itemIndex,
+                    binaryPropertyName: outcome.binaryPropertyName,
+                    ...getOriginFields(outcome),
+                    markdown: result.markdown,
+                    extracted: result.extracted,
+                    ...(result.provenance ? { provenance: result.provenance } : {}),
+                    summary: result.summary ?? '',
+                    completionTime: result.completionTime,
+                    inputTokens: result.inputTokens,
+                    outputTokens: result.outputTokens,
+                    estimatedCost: result.estimatedCost ?? null,
+                    pagesProcessed: result.pagesProcessed,
+                    pages: result.pages,
+                    processingIssues: outcome.processingIssues,
+                    ...(result.validation ? { validation: formatValidationReport(result.validation) } : {}),
+                    ...(result.confidence ? { confidence: formatConfidenceReport(result.confidence) } : {}),
+                    ...(result.servedBy ? { servedBy: result.servedBy } : {}),
+                    ...(result.cached ? { cached: true } : {}),
+                } as IDataObject,
+                pairedItem,
+            });
+            continue;
+        }
+
+        for (const page of result.pages) {
+            output.push({
+                json: {
+                    fileName: outcome.fileName,
+                    fileType: outcome.fileType,
+                    itemIndex: outcome.itemIndex,
+                    binaryPropertyName: outcome.binaryPropertyName,
+                    ...getOriginFields(outcome),
+                    pageNumber: page.pageNumber,
+                    totalPages: result.pagesProcessed,
+                    markdown: page.markdown,
+                    extracted: page.extracted ?? null,
+                    ...(page.provenance ? { provenance: page.provenance } : {}),
+                    processingIssues: outcome.processingIssues,
+                    ...(result.servedBy ? { servedBy: result.servedBy } : {}),
+                    ...(result.cached ? { cached: true } : {}),
+                    ...(result.validation
+                        ? {
+                            validationErrors: formatValidationErrors(
+                                result.validation.errors.filter((error) => error.pageNumber === undefined || error.pageNumber === page.pageNumber),
+                            ),
+                        }
+                        : {}),
+                    ...(result.confidence
+                        ? {
+                            confidence: formatConfidenceReport({
+                                ...result.confidence,
+                                failures: result.confidence.failures.filter((failure) => failure.pageNumber === null || failure.pageNumber === page.pageNumber),
+                            }),
+                        }
+                        : {}),
+                } as IDataObject,
+                pairedItem,
+            });
+        }
+    }
+
+    return output;
+};
+
+// One item per logical document, with its pages as a PDF in `data` so it can go straight into Process Document
+const buildSplitDocumentOutput = (
+    node: IExecuteFunctions,
+    outcomes: DocumentOutcome[],
+): INodeExecutionData[] => {
+    const output: INodeExecutionData[] = [];
+
+    for (const outcome of outcomes) {
+        const pairedItem = { item: outcome.itemIndex };
+
+        if (outcome.status === 'error') {
+            output.push(buildErrorItem(node, outcome));
+            continue;
+        }
+
+        if (outcome.status === 'skipped' || !outcome.result || !outcome.splitDocuments) {
+            output.push({
+                json: {
+                    fileName: outcome.fileName,
+                    fileType: outcome.fileType,
+                    itemIndex: outcome.itemIndex,
+                    binaryPropertyName: outcome.binaryPropertyName,
+                    ...getOriginFields(outcome),
+                    skipped: true,
+                    processingIssues: outcome.processingIssues,
+                },
+                pairedItem,
+            });
+            continue;
+        }
+
+        outcome.splitDocuments.forEach((document, index) => {
+            output.push({
+                json: {
+                    fileName: document.binary.fileName ?? outcome.fileName,
+                    sourceFileName: outcome.fileName,
+                    itemIndex: outcome.itemIndex,
+                    binaryPropertyName: outcome.binaryPropertyName,
+                    ...getOriginFields(outcome),
+                    documentIndex: index + 1,
+                    documentCount: outcome.splitDocuments?.length ?? 0,
+                    startPage: document.startPage,
+                    endPage: document.endPage,
+                    pageCount: document.endPage - document.startPage + 1,
+                    documentType: document.documentType ?? null,
+                    documentReference: document.documentReference ?? null,
+                    markdown: document.markdown,
+                    processingIssues: outcome.processingIssues,
+                    ...(outcome.result?.servedBy ? { servedBy: outcome.result.servedBy } : {}),
+                    ...(outcome.result?.cached ? { cached: true } : {}),
+                },
+                binary: { data: document.binary },
+                pairedItem,
+            });
+        });
+    }
+
+    return output;
+};
+
+// One item per file with its label; the classified file's binary is passed through for routing
+const buildClassificationOutput = (
+    node: IExecuteFunctions,
+    outcomes: DocumentOutcome[],
+    items: INodeExecutionData[],
+    categories: ClassificationCategory[],
+    routeByCategory: boolean,
+): INodeExecutionData[][] => {
+    const outputs: INodeExecutionData[][] = routeByCategory
+        ? Array.from({ length: categories.length + 1 }, () => [])
+        : [[]];
+    const unknownOutput = outputs[outputs.length - 1];
+
+    for (const outcome of outcomes) {
+        if (outcome.status === 'error') {
+            unknownOutput.push(buildErrorItem(node, outcome));
+            continue;
+        }
+
+        // The item's binary is the whole archive or email for unpacked files, so it is not passed through
+        const source = outcome.archivePath || outcome.email
+            ? undefined
+            : items[outcome.itemIndex]?.binary?.[outcome.binaryPropertyName];
+        const binary = source ? { [outcome.binaryPropertyName]: source } : undefined;
+        const classification = outcome.classification;
+
+        if (outcome.status === 'skipped' || !outcome.result || !classification) {
+            unknownOutput.push({
+                json: {
+                    fileName: outcome.fileName,
+                    fileType: outcome.fileType,
+                    itemIndex: outcome.itemIndex,
+                    binaryPropertyName: outcome.binaryPropertyName,
+                    ...getOriginFields(outcome),
+                    label: UNKNOWN_CATEGORY,
+                    skipped: true,
+                    processingIssues: outcome.processingIssues,
+                },
+                binary,
+                pairedItem: { item: outcome.itemIndex },
+            });
+            continue;
+        }
+
+        const categoryIndex = categories.findIndex((category) => category.name === classification.label);
+        const output = routeByCategory && categoryIndex >= 0 ? outputs[categoryIndex] : unknownOutput;
+        output.push({
+            json: {
+                fileName: outcome.fileName,
+                fileType: outcome.fileType,
+                itemIndex: outcome.itemIndex,
+                binaryPropertyName: outcome.binaryPropertyName,
+                ...getOriginFields(outcome),
+                label: classification.label,
+                predictedLabel: classification.predictedLabel,
+                confidence: classification.confidence,
+                reasoning: classification.reasoning,
+                completionTime: outcome.result.completionTime,
+                inputTokens: outcome.result.inputTokens,
+                outputTokens: outcome.result.outputTokens,
+                estimatedCost: outcome.result.estimatedCost ?? null,
+                pagesProcessed: outcome.result.pagesProcessed,
+                processingIssues: outcome.processingIssues,
+                ...(outcome.result.servedBy ? { servedBy: outcome.result.servedBy } : {}),
+                ...(outcome.result.cached ? { cached: true } : {}),
+            },
+            binary,
+            pairedItem: { item: outcome.itemIndex },
+        });
+    }
+
+    return outputs;
+};
+
+interface PreflightInput {
+    file: Buffer;
+    fileName: string;
+    fileType: string;
+    mimeType: string;
+    provider: LimescapeModelProvider;
+    model: string;
+    modelPrice?: ModelPrice;
+    schema?: Record<string, unknown>;
+    processingOptions: IDataObject;
+    processingIssues: string[];
+}
+
+const buildPreflightReport = async (input: PreflightInput): Promise<PreflightReport> => {
+    const { file, fileName, fileType, mimeType, provider, model, modelPrice, schema, processingOptions, processingIssues } = input;
+    const isPdf = fileType === 'pdf' || mimeType === 'application/pdf';
+    const isImage = !isPdf && mimeType.startsWith('image/');
+    const pdf = isPdf ? await inspectPdf(file) : undefined;
+    const pageCount = pdf ? pdf.pageCount : isImage ? 1 : null;
+
+    if (pdf?.encrypted) {
+        processingIssues.push(`${fileName} is encrypted; it can only be processed if it opens without a password.`);
+    }
+
+    const requestedPages = parsePages(processingOptions.pagesToConvertAsImages as string | undefined);
+    const uniquePages = requestedPages ? [...new Set(requestedPages)].sort((a, b) => a - b) : null;
+    const forcedPages = uniquePages && pageCount !== null ? uniquePages.filter((page) => page <= pageCount) : uniquePages;
+    if (uniquePages && forcedPages && forcedPages.length < uniquePages.length) {
+        processingIssues.push(`Pages To Convert As Images lists pages beyond the last page (${pageCount}) of ${fileName}; they are ignored.`);
+    }
+    const pagesToProcess = pageCount;
+
+    const tokens = pagesToProcess === null
+        ? undefined
+        : estimateTokens({
+            provider,
+            pages: pagesToProcess,
+            schema,
+            extractOnly: Boolean(processingOptions.extractOnly),
+            extractPageByPage: Boolean(processingOptions.extractPageByPage),
+            prompt: processingOptions.prompt as string | undefined,
+        });
+    if (!tokens) {
+        processingIssues.push(`Page count of ${fileName} is only known for PDFs and images; no token or cost estimate.`);
+    } else if (!modelPrice) {
+        processingIssues.push(`No price known for model '${model}'; no cost estimate for ${fileName}. Add a pricing override.`);
+    }
+
+    return {
+        mimeType,
+        fileSize: file.length,
+        pageCount,
+        encrypted: pdf ? pdf.encrypted : isImage ? false : null,
+        contentType: pdf ? pdf.contentType : isImage ? 'image' : 'unknown',
+        textPages: pdf ? pdf.textPages : isImage ? 0 : null,
+        scannedPages: pdf ? pdf.scannedPages : isImage ? 1 : null,
+        forcedPages,
+        pagesToProcess,
+        estimatedInputTokens: tokens?.inputTokens ?? null,
+        estimatedOutputTokens: tokens?.outputTokens ?? null,
+        estimatedCost: tokens && modelPrice ? estimateCost(modelPrice, tokens.inputTokens, tokens.outputTokens) : null,
+        model,
+    };
+};
+
+// One report item per file; skipped files are listed so the report covers every input
+const buildPreflightOutput = (
+    node: IExecuteFunctions,
+    outcomes: DocumentOutcome[],
+): INodeExecutionData[] => {
+    const output: INodeExecutionData[] = [];
+
+    for (const outcome of outcomes) {
+        if (outcome.status === 'error') {
+            output.push(buildErrorItem(node, outcome));
+            continue;
+        }
+
+        output.push({
+            json: {
+                fileName: outcome.fileName,
+                fileType: outcome.fileType,
+                itemIndex: outcome.itemIndex,
+                binaryPropertyName: outcome.binaryPropertyName,
+                ...getOriginFields(outcome),
+                ...(outcome.status === 'skipped' || !outcome.preflight
+                    ? { skipped: true }
+                    : outcome.preflight),
+                processingIssues: outcome.processingIssues,
+            },
+            pairedItem: { item: outcome.itemIndex },
+        });
+    }
+
+    return output;
+};
+
+interface SpreadsheetSettings {
+    format: SpreadsheetFormat;
+    arrayHandling: ArrayHandling;
+    binaryPropertyName: string;
+    schema?: Record<string, unknown>;
+}
+
+// Extracted records with their source; page-by-page results keep the page each record came from
+const getExportRecords = (outcome: DocumentOutcome, extractPageByPage: boolean): ExportRecord[] => {
+    const result = outcome.result;
+    if (outcome.status !== 'success' || !result) return [];
+    // Files from an archive are listed with their path inside it
+    const fileName = outcome.archivePath ?? outcome.fileName;
+    if (extractPageByPage) {
+        return result.pages
+            .filter((page) => !!page.extracted)
+            .map((page) => ({ fileName, pageNumber: page.pageNumber, data: page.extracted }));
+    }
+    return result.extractedData.map((data) => ({ fileName, pageNumber: null, data }));
+};
+
+const attachSpreadsheet = async (
+    node: IExecuteFunctions,
+    item: INodeExecutionData,
+    records: ExportRecord[],
+    baseName: string,
+    settings: SpreadsheetSettings,
+): Promise<void> => {
+    const tables = buildSpreadsheetTables(records, settings.schema, settings.arrayHandling);
+    const binaryData = await node.helpers.prepareBinaryData(
+        writeSpreadsheet(tables, settings.format),
+        `${baseName}.${settings.format}`,
+        SPREADSHEET_MIME_TYPES[settings.format],
+    );
+    item.binary = { ...item.binary, [settings.binaryPropertyName]: binaryData };
+};
+
+// Binary fields are named after the format: markdown, html and docx
+const attachRenditions = async (
+    node: IExecuteFunctions,
+    item: INodeExecutionData,
+    markdown: string,
+    baseName: string,
+    formats: RenditionFormat[],
+): Promise<void> => {
+    const binary = { ...item.binary };
+    for (const format of formats) {
+        const { extension, mimeType } = RENDITION_FILES[format];
+        binary[format] = await node.helpers.prepareBinaryData(
+            await renderRendition(format, markdown, baseName),
+            `${baseName}.${extension}`,
+            mimeType,
+        );
+    }
+    item.binary = binary;
+};
+
+/**
+ * Version description for LimescapeDocs V1
+ *
+ * Light versioning (minor updates):
+ * - Use a version array to list supported minor versions for this major implementation.
+ * - Example: version: [1.21, 1.22, 1.23]
+ * - Use `@version` in displayOptions when you need minor-specific field behavior.
+ *
+ * Full versioning (major updates):
+ * - The entry node maps versions to implementations via `nodeVersions`.
+ * - Example: 1.21/1.22/1.23 → LimescapeDocsV1, 2/2.1 → LimescapeDocsV2.
+ */
+// Evaluated by n8n as an expression, so it must be self-contained
+const configuredOutputs = (parameters: INodeParameters) => {
+    const errorOutputs = parameters.errorOutput ? [{ type: 'main', displayName: 'Error' }] : [];
+    if (parameters.operation === 'classify' && parameters.routeByCategory) {
+        const categories = (((parameters.categories || {}) as IDataObject).category || []) as IDataObject[];
+        return [
+            ...categories.map((category, index) => ({ type: 'main', displayName: category.name || 'Category ' + (index + 1) })),
+            { type: 'main', displayName: 'Unknown' },
+            ...errorOutputs,
+        ];
+    }
+    if (parameters.operation === 'processDocument' && parameters.reviewLowConfidence) {
+        return [{ type: 'main', displayName: 'Success' }, { type: 'main', displayName: 'Needs Review' }, ...errorOutputs];
+    }
+    return errorOutputs.length > 0 ? [{ type: 'main', displayName: 'Success' }, ...errorOutputs] : ['main'];
+};
+
+const versionDescription: INodeTypeDescription = {
+    displayName: 'Limescape Docs',
+    name: 'limescapeDocs',
+    icon: 'file:limescape-logo-square.svg',
+    group: ['transform'],
+    version: [1, 1.21, 1.22, 1.23],
+    subtitle: '={{$parameter["operation"]}}',
+    description: 'OCR & Document Extraction using AI models via Limescape Docs',
+    defaults: {
+        name: 'Limescape Docs',
+    },
+    inputs: ['main'],
+    outputs: `={{(${configuredOutputs})($parameter)}}`,
+    credentials: [
+        {
+            name: 'limescapeDocsApi',
+            required: true,
+            testedBy: 'limescapeDocsApiTest',
+            displayOptions: {
+                show: {
+                    authentication: ['combined'],
+                },
+                // Preflight never calls a provider
+                hide: {
+                    operation: ['preflight'],
+                },
+            },
+        },
+        // Per-provider credentials are all shown because the main and extraction providers can differ;
+        // the node only loads the ones the selected providers need
+        {
+            name: 'limescapeDocsOpenAiApi',
+            required: false,
+            testedBy: 'limescapeDocsApiTest',
+            displayOptions: {
+                show: {
+                    authentication: ['perProvider'],
+                },
+            },
+        },
+        {
+            name: 'limescapeDocsAzureOpenAiApi',
+            required: false,
+            testedBy: 'limescapeDocsApiTest',
+            displayOptions: {
+                show: {
+                    authentication: ['perProvider'],
+                },
+            },
+        },
+        {
+            name: 'limescapeDocsAzureAiFoundryApi',
+            required: false,
+            testedBy: 'limescapeDocsApiTest',
+            displayOptions: {
+                show: {
+                    authentication: ['perProvider'],
+                },
+            },
+        },
+        {
+            name: 'limescapeDocsGoogleGeminiApi',
+            required: false,
+            testedBy: 'limescapeDocsApiTest',
+            displayOptions: {
+                show: {
+                    authentication: ['perProvider'],
+                },
+            },
+        },
+        {
+            name: 'limescapeDocsGoogleVertexApi',
+            required: false,
+            testedBy: 'limescapeDocsApiTest',
+            displayOptions: {
+                show: {
+                    authentication: ['perProvider'],
+                },
+            },
+        },
+        {
+            name: 'limescapeDocsAwsBedrockApi',
+            required: false,
+            testedBy: 'limescapeDocsApiTest',
+            displayOptions: {
+                show: {
+                    authentication: ['perProvider'],
+                },
+            },
+        },
+    ],
+    properties: [
+        {
+            displayName: 'Operation',
+            name: 'operation',
+            type: 'options',
+            noDataExpression: true,
+            options: [
+                {
+                    name: 'Process Document',
+                    value: 'processDocument',
+                    description: 'Convert documents to markdown and extract structured data',
+                    action: 'Process a document',
+                },
+                {
+                    name: 'Classify',
+                    value: 'classify',
+                    description: 'Label documents with one of your categories from their first pages',
+                    action: 'Classify a document',
+                },
+                {
+                    name: 'Split Document',
+                    value: 'splitDocument',
+                    description: 'Split a scan with several documents into one PDF per document',
+                    action: 'Split a document',
+                },
+                {
+                    name: 'Preflight',
+                    value: 'preflight',
+                    description: 'Report page counts, file details and estimated cost without calling the model',
+                    action: 'Preflight a document',
+                },
+            ],
+            default: 'processDocument',
+        },
+
+        {
+            displayName: 'Credential Type',
+            name: 'authentication',
+            type: 'options',
+            options: [
+                {
+                    name: 'Combined Credential',
+                    value: 'combined',
+                    description: 'One credential holding the secrets for every provider',
+                },
+                {
+                    name: 'Per-Provider Credentials',
+                    value: 'perProvider',
+                    description: 'A separate credential for each provider, so access can be shared per provider',
+                },
+            ],
+            default: 'combined',
+            hint: 'Per-provider mode uses the credential matching Model Provider and, if set, Extraction Model Provider. Default: Combined Credential.',
+        },
+
+        // --- Core Parameters ---
+        // eslint-disable-next-line n8n-nodes-base/node-param-default-missing
+        {
+            displayName: 'Model Provider',
+            name: 'modelProvider',
+            type: 'options',
+            options: [
+                { name: 'OpenAI', value: LimescapeModelProvider.OPENAI },
+                { name: 'Azure', value: LimescapeModelProvider.AZURE },
+                { name: 'Azure AI Foundry', value: LimescapeModelProvider.AZURE_AIF },
+                { name: 'Google (API Key)', value: LimescapeModelProvider.GOOGLE },
+                { name: 'Google Vertex', value: LimescapeModelProvider.VERTEX },
+                { name: 'AWS Bedrock', value: LimescapeModelProvider.BEDROCK },
+            ],
+            default: LimescapeModelProvider.AZURE,
+            required: true,
+            description: 'The LLM provider to use for processing',
+            hint: 'Select the AI provider (e.g., OpenAI). Default: OpenAI. Required field.',
+        },
+        {
+            displayName: 'Is Gemini 3',
+            name: 'isGemini3',
+            type: 'hidden',
+            default: '={{ ($parameter["customModel"] || $parameter["model"] || "").toLowerCase().startsWith("gemini-3") }}',
+        },
+        {
+            displayName: 'Model Name or ID',
+            name: 'model',
+            type: 'options',
+            options: [],
+            typeOptions: {
+                loadOptionsMethod: 'getModelsForProvider',
+                loadOptionsDependsOn: ['modelProvider'],
+            },
+            default: 'gpt-5.1-standard',
+            description: 'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+            hint: 'Listed live from the selected provider when its credentials allow it, otherwise a preset list. Can be overridden by Custom Model.',
+        },
+        {
+            displayName: 'Custom Model',
+            name: 'customModel',
+            type: 'string',
+            default: '',
+            description: 'Overrides the Model selection. Use the exact model identifier required by the provider/library.',
+            placeholder: 'e.g., gpt-5.1 or specific Azure deployment ID',
+            hint: 'Optional: Enter a specific model ID to override the Model selection. Leave empty to use the selected Model.',
+        },
+        {
+            displayName: 'Fallback Models',
+            name: 'fallbackModels',
+            type: 'fixedCollection',
+            placeholder: 'Add Fallback Model',
+            typeOptions: {
+                multipleValues: true,
+                sortable: true,
+            },
+            default: {},
+            displayOptions: {
+                hide: {
+                    operation: ['preflight'],
+                },
+            },
+            description: 'Models tried in order when the main model fails with a rate limit (429), an outage (5xx) or a network error',
+            hint: 'Each entry reruns the whole file, OCR and extraction, with its own pair; an extraction-only failure also reruns OCR. Other errors, such as invalid requests, are not retried. Each result records the model that served it in servedBy.',
+            options: [
+                {
+                    displayName: 'Fallback',
+                    name: 'fallback',
+                    values: [
+                        // eslint-disable-next-line n8n-nodes-base/node-param-default-missing
+                        {
+                            displayName: 'Provider',
+                            name: 'provider',
+                            type: 'options',
+                            options: [
+                                { name: 'OpenAI', value: LimescapeModelProvider.OPENAI },
+                                { name: 'Azure', value: LimescapeModelProvider.AZURE },
+                                { name: 'Azure AI Foundry', value: LimescapeModelProvider.AZURE_AIF },
+                                { name: 'Google (API Key)', value: LimescapeModelProvider.GOOGLE },
+                                { name: 'Google Vertex', value: LimescapeModelProvider.VERTEX },
+                                { name: 'AWS Bedrock', value: LimescapeModelProvider.BEDROCK },
+                            ],
+                            default: LimescapeModelProvider.OPENAI,
+                            description: 'Provider for OCR, and for extraction unless an extraction provider is set',
+                        },
+                        {
+                            displayName: 'Model',
+                            name: 'model',
+                            type: 'string',
+                            default: '',
+                            required: true,
+                            placeholder: 'e.g. gpt-4.1',
+                            description: 'Model ID or deployment name at the provider',
+                        },
+                        {
+                            displayName: 'Extraction Provider',
+                            name: 'extractionProvider',
+                            type: 'options',
+                            options: [
+                                { name: 'Same as Fallback', value: '' },
+                                { name: 'OpenAI', value: LimescapeModelProvider.OPENAI },
+                                { name: 'Azure', value: LimescapeModelProvider.AZURE },
+                                { name: 'Azure AI Foundry', value: LimescapeModelProvider.AZURE_AIF },
+                                { name: 'Google (API Key)', value: LimescapeModelProvider.GOOGLE },
+                                { name: 'Google Vertex', value: LimescapeModelProvider.VERTEX },
+                                { name: 'AWS Bedrock', value: LimescapeModelProvider.BEDROCK },
+                            ],
+                            default: '',
+                            description: 'Provider for the extraction step with this fallback',
+                        },
+                        {
+                            displayName: 'Extraction Model',
+                            name: 'extractionModel',
+                            type: 'string',
+                            default: '',
+                            placeholder: 'e.g. gpt-4.1-mini',
+                            description: 'Model for the extraction step. Leave empty to extract with the fallback model.',
+                        },
+                    ],
+                },
+            ],
+        },
+        {
+            displayName: 'Gemini 3 Options',
+            name: 'gemini3Options',
+            type: 'collection',
+            placeholder: 'Add Gemini 3 Option',
+            default: {},
+            description: 'Options specific to Google/Vertex Gemini 3 models',
+            hint: 'Available only for Gemini 3 Pro Preview models.',
+            displayOptions: {
+                show: {
+                    isGemini3: [true],
+                },
+            },
+            options: [
+                {
+                    displayName: 'Thinking Level',
+                    name: 'thinkingLevel',
+                    type: 'options',
+                    options: [
+                        { name: 'Low', value: 'low' },
+                        { name: 'High', value: 'high' },
+                    ],
+                    default: 'low',
+                    description: 'Controls depth of reasoning for Gemini 3 models',
+                    hint: 'Applied only for Gemini 3 models; availability may vary by region/project.',
+                },
+                {
+                    displayName: 'Media Resolution',
+                    name: 'mediaResolution',
+                    type: 'options',
+                    options: [
+                        { name: 'Low', value: 'low' },
+                        { name: 'Medium', value: 'medium' },
+                        { name: 'High', value: 'high' },
+                    ],
+                    default: 'medium',
+                    description: 'Controls image resolution used by Gemini 3 models',
+                    hint: 'Higher resolutions may improve OCR quality at higher cost.',
+                },
+            ],
+        },
+        {
+            displayName: 'Categories',
+            name: 'categories',
+            type: 'fixedCollection',
+            placeholder: 'Add Category',
+            typeOptions: {
+                multipleValues: true,
+                sortable: true,
+            },
+            default: {},
+            displayOptions: {
+                show: {
+                    operation: ['classify'],
+                },
+            },
+            description: 'Categories the model can choose from. Files that match none are labelled unknown.',
+            options: [
+                {
+                    displayName: 'Category',
+                    name: 'category',
+                    values: [
+                        {
+                            displayName: 'Name',
+                            name: 'name',
+                            type: 'string',
+                            default: '',
+                            required: true,
+                            placeholder: 'e.g. invoice',
+                            description: 'Label returned for files in this category',
+                        },
+                        {
+                            displayName: 'Description',
+                            name: 'description',
+                            type: 'string',
+                            default: '',
+                            placeholder: 'e.g. A bill from a supplier requesting payment',
+                            description: 'Tells the model what files in this category look like',
+                        },
+                    ],
+                },
+            ],
+        },
+        {
+            displayName: 'Pages to Classify',
+            name: 'classificationPages',
+            type: 'number',
+            typeOptions: { minValue: 1 },
+            default: 2,
+            displayOptions: {
+                show: {
+                    operation: ['classify'],
+                },
+            },
+            description: 'Number of leading PDF pages sent to the model. Other formats, such as DOCX, PPTX, XLSX or TIFF, are sent whole.',
+            hint: 'PDFs are cut down to these pages before the call; other formats are sent whole and get a processing issue saying so. Fewer pages are faster and cheaper; most documents can be recognised from the first page. Default: 2.',
+        },
+        {
+            displayName: 'Confidence Threshold',
+            name: 'confidenceThreshold',
+            type: 'number',
+            typeOptions: { minValue: 0, maxValue: 1, numberPrecision: 2 },
+            default: 0.5,
+            displayOptions: {
+                show: {
+                    operation: ['classify'],
+                },
+            },
+            description: 'Minimum confidence (0-1) for a label to be used. Lower confidence results are labelled unknown.',
+            hint: 'Default: 0.5.',
+        },
+        {
+            displayName: 'Boundary Hints',
+            name: 'splitHints',
+            type: 'string',
+            typeOptions: { rows: 2 },
+            default: '',
+            displayOptions: {
+                show: {
+                    operation: ['splitDocument'],
+                },
+            },
+            placeholder: 'e.g. Every invoice starts with the supplier letterhead',
+            description: 'Optional description of how documents in the scan can be told apart',
+            hint: 'Each page is checked on its own for a new document, document number and page numbering such as "Page 1 of 2".',
+        },
+        {
+            displayName: 'Output per Category',
+            name: 'routeByCategory',
+            type: 'boolean',
+            default: false,
+            displayOptions: {
+                show: {
+                    operation: ['classify'],
+                },
+            },
+            description: 'Whether to add one output per category, plus Unknown, and route each file to its label',
+            hint: 'When off, all classified files are returned on one output. Default: false.',
+        },
+        
+        {
+            displayName: 'Schema Source',
+            name: 'schemaSource',
+            type: 'options',
+            displayOptions: {
+                show: {
+                    operation: ['processDocument', 'preflight'],
+                },
+            },
+            options: [
+                {
+                    name: 'JSON',
+                    value: 'json',
+                    description: 'Write the JSON schema by hand',
+                },
+                {
+                    name: 'Field Builder',
+                    value: 'builder',
+                    description: 'Define fields one by one; the JSON schema is generated from them',
+                },
+                {
+                    name: 'Document Type Preset',
+                    value: 'preset',
+                    description: 'Use a maintained schema and extraction prompt for a common document type',
+                },
+            ],
+            default: 'json',
+            description: 'How the extraction schema is defined',
+            hint: 'Default: JSON.',
+        },
+        {
+            displayName: 'Document Type',
+            name: 'documentPreset',
+            type: 'options',
+            options: [
+                { name: 'Bank Statement', value: 'bankStatement', description: 'Account, period, balances and every transaction' },
+                { name: 'Delivery Note', value: 'deliveryNote', description: 'Shipper, recipient, order references, delivered lines and signatures' },
+                { name: 'ID Card / Passport', value: 'idCard', description: 'Identity document holder details, document number, validity and MRZ' },
+                { name: 'Invoice', value: 'invoice', description: 'Supplier, customer, invoice numbers, dates, totals, VAT breakdown and line items' },
+                { name: 'Page Zones (Layout)', value: 'pageZones', description: 'Verbatim text blocks, tables and images per page with their position, plus a document summary' },
+                { name: 'Purchase Order', value: 'purchaseOrder', description: 'Buyer, supplier, order numbers, delivery details and ordered lines' },
+                { name: 'Receipt', value: 'receipt', description: 'Merchant, date and time, items, totals and payment method' },
+            ],
+            default: 'invoice',
+            displayOptions: {
+                show: {
+                    operation: ['processDocument', 'preflight'],
+                    schemaSource: ['preset'],
+                },
+            },
+            description: 'Preset that provides the schema and, unless Extraction Prompt is set, the extraction prompt',
+            hint: 'Add extra fields with Schema Fields below. Turn on Include Resolved Schema to see the final schema in the output.',
+        },
+        {
+            displayName: 'Schema (Optional)',
+            name: 'schema',
+            type: 'json',
+            displayOptions: {
+                show: {
+                    operation: ['processDocument', 'preflight'],
+                    schemaSource: ['json'],
+                },
+            },
+            default: JSON.stringify(PAGE_ZONES_SCHEMA),
+            description: 'JSON schema for structured data extraction (if supported by model/prompt)',
+            placeholder: '{\n  "type": "object",\n  "properties": {\n    "invoice_number": { "type": "string" }\n  }\n}',
+            typeOptions: {
+                rows: 5,
+            },
+            hint: 'Optional: Provide a JSON schema for structured output. Default: {}.',
+        },
+        {
+            displayName: 'Schema Fields',
+            name: 'schemaFields',
+            type: 'fixedCollection',
+            placeholder: 'Add Field',
+            typeOptions: {
+                multipleValues: true,
+                sortable: true,
+            },
+            default: {},
+            displayOptions: {
+                show: {
+                    operation: ['processDocument', 'preflight'],
+                    schemaSource: ['builder', 'preset'],
+                },
+            },
+            description: 'Fields to extract. Nest fields under an Object or Array of Objects field with Parent Field. With a Document Type Preset, the fields are added to the preset schema and Parent Field may point at preset fields too.',
+            hint: 'Fields keep their order in the generated schema. Example: add line_items as Array of Objects, then fields with Parent Field set to line_items.',
+            options: [
+                {
+                    displayName: 'Field',
+                    name: 'field',
+                    values: [
+                        {
+                            displayName: 'Name',
+                            name: 'name',
+                            type: 'string',
+                            default: '',
+                            required: true,
+                            placeholder: 'e.g. invoice_number',
+                            description: 'Property name in the extracted data',
+                        },
+                        {
+                            displayName: 'Type',
+                            name: 'type',
+                            type: 'options',
+                            options: [
+                                { name: 'Array of Numbers', value: 'arrayOfNumbers' },
+                                { name: 'Array of Objects', value: 'arrayOfObjects' },
+                                { name: 'Array of Strings', value: 'arrayOfStrings' },
+                                { name: 'Boolean', value: 'boolean' },
+                                { name: 'Date', value: 'date' },
+                                { name: 'Integer', value: 'integer' },
+                                { name: 'Number', value: 'number' },
+                                { name: 'Object', value: 'object' },
+                                { name: 'String', value: 'string' },
+                            ],
+                            default: 'string',
+                            description: 'JSON schema type of the field',
+                        },
+                        {
+                            displayName: 'Description',
+                            name: 'description',
+                            type: 'string',
+                            default: '',
+                            description: 'Tells the model what to extract into this field',
+                        },
+                        {
+                            displayName: 'Required',
+                            name: 'required',
+                            type: 'boolean',
+                            default: false,
+                            description: 'Whether the field must be present in the extracted data',
+                        },
+                        {
+                            displayName: 'Allowed Values',
+                            name: 'enumValues',
+                            type: 'string',
+                            default: '',
+                            placeholder: 'e.g. EUR,USD,GBP',
+                            description: 'Comma-separated list of allowed values (enum). Leave empty to allow any value.',
+                        },
+                        {
+                            displayName: 'Parent Field',
+                            name: 'parentPath',
+                            type: 'string',
+                            default: '',
+                            placeholder: 'e.g. line_items or customer.address',
+                            description: 'Dot-separated path of the Object or Array of Objects field this field belongs to. Leave empty for a top-level field.',
+                        },
+                    ],
+                },
+            ],
+        },
+        {
+            displayName: 'Include Resolved Schema',
+            name: 'includeResolvedSchema',
+            type: 'boolean',
+            default: false,
+            displayOptions: {
+                show: {
+                    operation: ['processDocument'],
+                    schemaSource: ['builder', 'preset'],
+                },
+            },
+            description: 'Whether to add the generated JSON schema to the output as resolvedSchema',
+            hint: 'Useful to review a preset with its extra fields, or to copy it into the JSON schema source.',
+        },
+        {
+            displayName: 'Include Field Provenance',
+            name: 'includeProvenance',
+            type: 'boolean',
+            displayOptions: {
+                show: {
+                    operation: ['processDocument'],
+                },
+            },
+            default: false,
+            description: 'Whether to return, for every extracted field, the page, the verbatim source text and the approximate region it was read from',
+            hint: 'Requires a schema. Adds provenance next to extracted (and aggregatedProvenance). Extract Per Page Keys is ignored while this is on.',
+        },
+        {
+            displayName: 'Route Low Confidence to Review',
+            name: 'reviewLowConfidence',
+            type: 'boolean',
+            displayOptions: {
+                show: {
+                    operation: ['processDocument'],
+                },
+            },
+            default: false,
+            description: 'Whether to send documents below a confidence threshold to a separate Needs Review output',
+            hint: 'Review items list the fields that failed and why. Documents above the thresholds stay on the Success output.',
+        },
+        {
+            displayName: 'Confidence Options',
+            name: 'confidenceOptions',
+            type: 'collection',
+            displayOptions: {
+                show: {
+                    operation: ['processDocument'],
+                    reviewLowConfidence: [true],
+                },
+            },
+            placeholder: 'Add Confidence Option',
+            default: {},
+            description: 'Where confidence scores come from and the minimum for the whole document',
+            options: [
+                {
+                    displayName: 'Confidence Field',
+                    name: 'confidenceField',
+                    type: 'string',
+                    default: 'confidence_score',
+                    description: 'Name of the field in which the model reports its own confidence (0-1). A score covers the object it is in.',
+                    hint: 'The default schema asks for confidence_score per zone. Default: confidence_score.',
+                },
+                {
+                    displayName: 'Confidence Source',
+                    name: 'confidenceSource',
+                    type: 'options',
+                    options: [
+                        { name: 'Both (Lowest Wins)', value: 'both' },
+                        { name: 'Log Probabilities', value: 'logprobs' },
+                        { name: 'Self-Reported', value: 'selfReported' },
+                    ],
+                    default: 'both',
+                    description: 'Where confidence scores come from',
+                    hint: 'Log probabilities require Log Probabilities in the LLM Parameters and a model that returns them. Default: Both.',
+                },
+                {
+                    displayName: 'Document Threshold',
+                    name: 'documentThreshold',
+                    type: 'number',
+                    typeOptions: { minValue: 0, maxValue: 1, numberPrecision: 2 },
+                    default: 0.7,
+                    description: 'Minimum confidence (0-1) for the whole document. 0 turns the document check off.',
+                    hint: 'Default: 0.7.',
+                },
+                {
+                    displayName: 'Review When No Score',
+                    name: 'reviewWhenMissing',
+                    type: 'boolean',
+                    default: false,
+                    description: 'Whether to send documents to review when a threshold cannot be checked because no confidence score is available',
+                    hint: 'Default: false.',
+                },
+            ],
+        },
+        {
+            displayName: 'Field Confidence Thresholds',
+            name: 'fieldConfidenceThresholds',
+            type: 'fixedCollection',
+            placeholder: 'Add Threshold',
+            typeOptions: {
+                multipleValues: true,
+            },
+            default: {},
+            displayOptions: {
+                show: {
+                    operation: ['processDocument'],
+                    reviewLowConfidence: [true],
+                },
+            },
+            description: 'Minimum confidence for individual fields. A field matched by several thresholds must meet the highest.',
+            options: [
+                {
+                    displayName: 'Threshold',
+                    name: 'threshold',
+                    values: [
+                        {
+                            displayName: 'Field',
+                            name: 'field',
+                            type: 'string',
+                            default: '',
+                            required: true,
+                            placeholder: 'e.g. line_items[*].amount',
+                            description: 'Field path. [*] matches any array index and * any key; an object or array covers all fields inside it.',
+                        },
+                        {
+                            displayName: 'Min Confidence',
+                            name: 'minConfidence',
+                            type: 'number',
+                            typeOptions: { minValue: 0, maxValue: 1, numberPrecision: 2 },
+                            default: 0.8,
+                            description: 'Minimum confidence (0-1) for the field',
+                        },
+                    ],
+                },
+            ],
+        },
+        {
+            displayName: 'Schema Validation',
+            name: 'validationOptions',
+            type: 'collection',
+            displayOptions: {
+                show: {
+                    operation: ['processDocument'],
+                },
+            },
+            placeholder: 'Add Validation Option',
+            default: {},
+            description: 'Check that extracted data matches the schema and optionally ask the model to repair it',
+            hint: 'Turn on Validate Against Schema to check extractions. Errors are reported per file in the output.',
+            options: [
+                {
+                    displayName: 'Fail on Invalid Data',
+                    name: 'failOnInvalid',
+                    type: 'boolean',
+                    default: false,
+                    description: 'Whether to treat a file as failed when its extracted data still does not match the schema after repair attempts',
+                    hint: 'When off, invalid files are returned with their validation errors. Default: false.',
+                },
+                {
+                    displayName: 'Repair Attempts',
+                    name: 'repairAttempts',
+                    type: 'number',
+                    typeOptions: { minValue: 0, maxValue: 5 },
+                    default: 0,
+                    description: 'How many times to re-ask the extraction model with the validation errors when the extracted data is invalid',
+                    hint: 'Each attempt re-extracts the whole document in an extra call; in page-by-page mode only the failing pages are replaced. Default: 0.',
+                },
+                {
+                    displayName: 'Validate Against Schema',
+                    name: 'validateExtraction',
+                    type: 'boolean',
+                    default: false,
+                    description: 'Whether to validate every extraction (each page in page-by-page mode) against the schema',
+                    hint: 'Default: false.',
+                },
+            ],
+        },
+        {
+            displayName: 'Attachment Filter',
+            name: 'attachmentFilter',
+            type: 'collection',
+            placeholder: 'Add filter',
+            default: {},
+            description: 'Filter which attachments to process based on file extension',
+            hint: 'Optional: Define rules to include or exclude attachments based on their file extension.',
+            options: [
+                {
+                    displayName: 'Filter Mode',
+                    name: 'filterMode',
+                    type: 'options',
+                    options: [
+                        { name: 'Include (only Process These Extensions)', value: 'include' },
+                        { name: 'Exclude (Skip These Extensions)', value: 'exclude' },
+                    ],
+                    default: 'include',
+                    description: 'Choose whether to include or exclude the listed extensions',
+                    hint: 'Select if the extensions list is for inclusion or exclusion. Default: include.',
+                },
+                {
+                    displayName: 'Extensions',
+                    name: 'extensions',
+                    type: 'string',
+                    default: 'pdf,doc,docx,odt,ott,rtf,txt,html,htm,xml,wps,wpd,xls,xlsx,ods,ots,csv,tsv,ppt,pptx,odp,otp,jpg,jpeg,png,heic',
+                    description: 'Comma-separated file extensions to include or exclude (no dot, e.g. pdf, docx). You can enter any extension.',
+                    hint: 'Enter comma-separated extensions (no dots). Default includes common document types.',
+                },
+            ],
+        },
+        {
+            displayName: 'Expand ZIP Archives',
+            name: 'expandArchives',
+            type: 'boolean',
+            default: false,
+            description: 'Whether to unpack ZIP files and process the documents inside them one by one, instead of sending the archive as-is',
+            hint: 'Unpacked files go through the attachment filter. Office files such as DOCX are not treated as archives.',
+        },
+        {
+            displayName: 'Archive Options',
+            name: 'archiveOptions',
+            type: 'collection',
+            placeholder: 'Add option',
+            default: {},
+            displayOptions: {
+                show: {
+                    expandArchives: [true],
+                },
+            },
+            options: [
+                {
+                    displayName: 'Max Compression Ratio',
+                    name: 'maxCompressionRatio',
+                    type: 'number',
+                    typeOptions: {
+                        minValue: 1,
+                    },
+                    default: 100,
+                    description: 'Refuse an archive when a file inside it unpacks to more than this many times its compressed size (zip bomb protection). Files under 1 MB are not checked.',
+                },
+                {
+                    displayName: 'Max Files',
+                    name: 'maxFiles',
+                    type: 'number',
+                    typeOptions: {
+                        minValue: 1,
+                    },
+                    default: 500,
+                    description: 'Refuse an archive with more files than this, counting nested archives',
+                },
+                {
+                    displayName: 'Max Nesting Depth',
+                    name: 'maxDepth',
+                    type: 'number',
+                    typeOptions: {
+                        minValue: 0,
+                    },
+                    default: 2,
+                    description: 'How many levels of archives inside archives to unpack. 0 unpacks only the top-level archive.',
+                },
+                {
+                    displayName: 'Max Unpacked Size (MB)',
+                    name: 'maxTotalSize',
+                    type: 'number',
+                    typeOptions: {
+                        minValue: 1,
+                    },
+                    default: 500,
+                    description: 'Refuse an archive whose files together unpack to more than this',
+                },
+            ],
+        },
+        {
+            displayName: 'Expand Emails',
+            name: 'expandEmails',
+            type: 'boolean',
+            default: false,
+            description: 'Whether to split .eml and Outlook .msg files into the message body and its attachments, and process each as a document',
+            hint: 'Attachments go through the attachment filter. Results include sender, subject and date.',
+        },
+        {
+            displayName: 'Email Options',
+            name: 'emailOptions',
+            type: 'collection',
+            placeholder: 'Add option',
+            default: {},
+            displayOptions: {
+                show: {
+                    expandEmails: [true],
+                },
+            },
+            options: [
+                {
+                    displayName: 'Include Body',
+                    name: 'includeBody',
+                    type: 'boolean',
+                    default: true,
+                    description: 'Whether to process the message body as a document. It is not subject to the attachment filter.',
+                },
+                {
+                    displayName: 'Include Inline Images',
+                    name: 'includeInlineImages',
+                    type: 'boolean',
+                    default: false,
+                    description: 'Whether to process images embedded in the message body, such as logos in signatures',
+                },
+            ],
+        },
+
+        // --- Behavior ---
+        {
+            displayName: 'Input Source',
+            name: 'inputSource',
+            type: 'options',
+            options: [
+                {
+                    name: 'Binary Field',
+                    value: 'binary',
+                    description: 'Read files from the binary properties of each item',
+                },
+                {
+                    name: 'URL',
+                    value: 'url',
+                    description: 'Download one file per item from an HTTP(S) URL',
+                },
+                {
+                    name: 'File Path',
+                    value: 'filePath',
+                    description: 'Read one file per item from the local file system, within the allowed directories',
+                },
+                {
+                    name: 'Base64 Field',
+                    value: 'base64',
+                    description: 'Decode one file per item from a base64 string or data URL in the item JSON',
+                },
+            ],
+            default: 'binary',
+            description: 'Where the files to process come from',
+            hint: 'Every source goes through the attachment filter. Default: Binary Field.',
+        },
+        {
+            displayName: 'Binary Input',
+            name: 'binaryInputMode',
+            type: 'options',
+            displayOptions: {
+                show: {
+                    inputSource: ['binary'],
+                },
+            },
+            options: [
+                {
+                    name: 'Single Field',
+                    value: 'single',
+                    description: 'Process one named binary property per item',
+                },
+                {
+                    name: 'All Binary Fields',
+                    value: 'all',
+                    description: 'Process every binary property on each item (e.g. attachment_0, attachment_1)',
+                },
+                {
+                    name: 'Fields Matching Pattern',
+                    value: 'pattern',
+                    description: 'Process the binary properties whose names match a wildcard pattern',
+                },
+            ],
+            default: 'single',
+            description: 'Which binary properties of each input item to process',
+            hint: 'Use All Binary Fields for email triggers that put attachments in attachment_0, attachment_1, etc. Default: Single Field.',
+        },
+        {
+            displayName: 'Input Binary Field',
+            name: 'binaryPropertyName',
+            type: 'string',
+            default: 'data',
+            required: true,
+            displayOptions: {
+                show: {
+                    inputSource: ['binary'],
+                    binaryInputMode: ['single'],
+                },
+            },
+            description: 'Name of the binary property in the input item containing the file data',
+            hint: 'Specify the field name holding the file data in the input item. Default: data. Required field.',
+        },
+        {
+            displayName: 'Binary Field Pattern',
+            name: 'binaryPropertyPattern',
+            type: 'string',
+            default: 'attachment_*',
+            required: true,
+            displayOptions: {
+                show: {
+                    inputSource: ['binary'],
+                    binaryInputMode: ['pattern'],
+                },
+            },
+            description: 'Comma-separated binary property names to process. Use * and ? as wildcards.',
+            hint: 'Example: attachment_*, invoice. Default: attachment_*.',
+        },
+        {
+            displayName: 'Document URL',
+            name: 'documentUrl',
+            type: 'string',
+            default: '',
+            required: true,
+            placeholder: 'https://example.com/invoice.pdf',
+            displayOptions: {
+                show: {
+                    inputSource: ['url'],
+                },
+            },
+            description: 'HTTP(S) URL of the file to process',
+            hint: 'Usually an expression that reads the URL from the item, e.g. $json.url.',
+        },
+        {
+            displayName: 'File Path',
+            name: 'documentFilePath',
+            type: 'string',
+            default: '',
+            required: true,
+            placeholder: '/data/inbox/invoice.pdf',
+            displayOptions: {
+                show: {
+                    inputSource: ['filePath'],
+                },
+            },
+            description: 'Path of the local file to process. It must be inside one of the Allowed Directories.',
+            hint: 'Usually an expression that reads the path from the item, e.g. $json.path.',
+        },
+        {
+            displayName: 'Base64 Field',
+            name: 'base64Field',
+            type: 'string',
+            default: 'data',
+            required: true,
+            displayOptions: {
+                show: {
+                    inputSource: ['base64'],
+                },
+            },
+            description: 'Name of the JSON field holding the base64 string or data URL. Use dots for nested fields (e.g. document.content).',
+            hint: 'Default: data.',
+        },
+        {
+            displayName: 'Input Source Options',
+            name: 'inputSourceOptions',
+            type: 'collection',
+            placeholder: 'Add option',
+            default: {},
+            displayOptions: {
+                show: {
+                    inputSource: ['url', 'filePath', 'base64'],
+                },
+            },
+            options: [
+                {
+                    displayName: 'Allowed Directories',
+                    name: 'allowedDirectories',
+                    type: 'string',
+                    default: '',
+                    placeholder: '/data/inbox, /data/archive',
+                    description: 'Comma-separated directories that File Path may read from, including their subdirectories. Paths are resolved (.., symlinks) before the check. Required for File Path.',
+                    hint: 'File Path refuses every file until at least one directory is listed.',
+                },
+                {
+                    displayName: 'Download Timeout (Seconds)',
+                    name: 'downloadTimeout',
+                    type: 'number',
+                    typeOptions: {
+                        minValue: 1,
+                    },
+                    default: 60,
+                    description: 'How long to wait for a URL download before giving up',
+                },
+                {
+                    displayName: 'File Name',
+                    name: 'fileName',
+                    type: 'string',
+                    default: '',
+                    description: 'File name to use instead of the one from the URL, path or data URL. The extension is corrected from the file contents when it does not match.',
+                },
+                {
+                    displayName: 'Max File Size (MB)',
+                    name: 'maxFileSize',
+                    type: 'number',
+                    typeOptions: {
+                        minValue: 0,
+                    },
+                    default: 50,
+                    description: 'Largest file to accept. Downloads are stopped as soon as they pass this size. 0 means no limit.',
+                },
+            ],
+        },
+        {
+            displayName: 'Output Mode',
+            name: 'outputMode',
+            type: 'options',
+            displayOptions: {
+                show: {
+                    operation: ['processDocument'],
+                },
+            },
+            options: [
+                {
+                    name: 'Aggregated',
+                    value: 'aggregated',
+                    description: 'Combine all files into a single item',
+                },
+                {
+                    name: 'One Item per File',
+                    value: 'perFile',
+                    description: 'Emit one item per input file with its own markdown, extracted data and token counts',
+                },
+                {
+                    name: 'One Item per Page',
+                    value: 'perPage',
+                    description: 'Emit one item per page returned for each input file',
+                },
+            ],
+            default: 'aggregated',
+            description: 'How results are returned to the next node',
+            hint: 'Aggregated keeps all files in one item. Per-file and per-page items stay paired with their source item. Default: Aggregated.',
+        },
+        {
+            displayName: 'Export Spreadsheet',
+            name: 'exportSpreadsheet',
+            type: 'boolean',
+            default: false,
+            displayOptions: {
+                show: {
+                    operation: ['processDocument'],
+                    outputMode: ['aggregated', 'perFile'],
+                },
+            },
+            description: 'Whether to attach the extracted data as an XLSX or CSV file',
+            hint: 'Nested fields become columns, with source file and page columns. Aggregated mode attaches one file for all documents, One Item per File one per file. Default: false.',
+        },
+        {
+            displayName: 'Spreadsheet Options',
+            name: 'spreadsheetOptions',
+            type: 'collection',
+            placeholder: 'Add Spreadsheet Option',
+            default: {},
+            displayOptions: {
+                show: {
+                    operation: ['processDocument'],
+                    outputMode: ['aggregated', 'perFile'],
+                    exportSpreadsheet: [true],
+                },
+            },
+            options: [
+                {
+                    displayName: 'Array Handling',
+                    name: 'arrayHandling',
+                    type: 'options',
+                    options: [
+                        {
+                            name: 'Separate Sheets',
+                            value: 'sheets',
+                            description: 'One sheet per array field (e.g. line items), linked to the main sheet by the Record column',
+                        },
+                        {
+                            name: 'Extra Rows',
+                            value: 'rows',
+                            description: 'One row per array item, repeating the document columns',
+                        },
+                    ],
+                    default: 'sheets',
+                    description: 'How arrays of objects such as line items are laid out. CSV files always use extra rows.',
+                },
+                {
+                    displayName: 'File Format',
+                    name: 'format',
+                    type: 'options',
+                    options: [
+                        { name: 'XLSX', value: 'xlsx' },
+                        { name: 'CSV', value: 'csv' },
+                    ],
+                    default: 'xlsx',
+                },
+                {
+                    displayName: 'File Name',
+                    name: 'fileName',
+                    type: 'string',
+                    default: 'extracted-data',
+                    description: 'File name without extension for the aggregated file. Per-file exports are named after their source file.',
+                },
+                {
+                    displayName: 'Put Output File in Field',
+                    name: 'binaryPropertyName',
+                    type: 'string',
+                    default: 'spreadsheet',
+                    description: 'The name of the output binary field to put the file in',
+                },
+            ],
+        },
+        {
+            displayName: 'Attach Renditions',
+            name: 'renditions',
+            type: 'multiOptions',
+            options: [
+                { name: 'DOCX', value: 'docx' },
+                { name: 'HTML', value: 'html' },
+                { name: 'Markdown', value: 'markdown' },
+            ],
+            default: [],
+            displayOptions: {
+                show: {
+                    operation: ['processDocument'],
+                    outputMode: ['aggregated', 'perFile'],
+                },
+            },
+            description: 'Converted document files to attach as binary data, named after the source file',
+            hint: 'Written to the markdown, html and docx binary fields. Aggregated mode attaches one combined file per format. Default: none.',
+        },
+        {
+            displayName: 'Send Errors to Error Output',
+            name: 'errorOutput',
+            type: 'boolean',
+            default: false,
+            description: 'Whether to add a second "Error" output for failed documents instead of returning them between the results',
+            hint: 'Error items include the error type, provider, model, HTTP status (if known), file name and item index. Failed documents are only returned when On Error is set to continue; otherwise the first failure stops the node. Default: false.',
+        },
+        {
+            displayName: 'Parallel Documents',
+            name: 'parallelDocuments',
+            type: 'number',
+            typeOptions: { minValue: 1 },
+            default: 1,
+            description: 'Maximum number of documents processed at the same time across input items',
+            hint: 'Output order stays the same as the input order. Independent of the per-document Concurrency processing option. Default: 1 (sequential).',
+        },
+        {
+            displayName: 'Cache Results',
+            name: 'useCache',
+            type: 'boolean',
+            default: false,
+            displayOptions: {
+                hide: {
+                    operation: ['preflight'],
+                },
+            },
+            description: 'Whether to reuse earlier results for identical files processed with the same model, schema, prompts and options',
+            hint: 'Cache hits are marked with cached: true and report 0 tokens. Default: false.',
+        },
+        {
+            displayName: 'Cache Options',
+            name: 'cacheOptions',
+            type: 'collection',
+            placeholder: 'Add Cache Option',
+            default: {},
+            displayOptions: {
+                show: {
+                    useCache: [true],
+                },
+                hide: {
+                    operation: ['preflight'],
+                },
+            },
+            options: [
+                {
+                    displayName: 'Bypass Cache',
+                    name: 'bypassCache',
+                    type: 'boolean',
+                    default: false,
+                    description: 'Whether to ignore cached results for this run. Fresh results are still written to the cache.',
+                },
+                {
+                    displayName: 'Cache Directory',
+                    name: 'cacheDirectory',
+                    type: 'string',
+                    default: '',
+                    placeholder: 'e.g. /data/limescape-cache',
+                    description: 'Directory the cached results are stored in. Leave empty to use a folder in the system temp directory.',
+                },
+                {
+                    displayName: 'Clear Cache',
+                    name: 'clearCache',
+                    type: 'boolean',
+                    default: false,
+                    description: 'Whether to delete all cached results in the cache directory before processing',
+                    hint: 'Clears the cache on every run while enabled, so nothing is reused. Switch it off again after one run.',
+                },
+                {
+                    displayName: 'Time to Live (Hours)',
+                    name: 'ttlHours',
+                    type: 'number',
+                    typeOptions: { minValue: 0 },
+                    default: 168,
+                    description: 'How long a cached result stays valid. 0 keeps results until the cache is cleared.',
+                },
+            ],
+        },
+        {
+            displayName: 'Cost Control',
+            name: 'costOptions',
+            type: 'collection',
+            placeholder: 'Add Cost Option',
+            default: {},
+            description: 'Estimated cost per file is reported from token counts and a built-in price list (USD per 1M tokens)',
+            hint: 'Azure deployment names are not in the price list; add a pricing override for them.',
+            options: [
+                {
+                    displayName: 'Max Budget (USD)',
+                    name: 'maxBudget',
+                    type: 'number',
+                    typeOptions: { minValue: 0, numberPrecision: 2 },
+                    default: 0,
+                    description: 'Stop starting new files once the estimated spend of this execution reaches this amount. 0 means no limit.',
+                    hint: 'Checked before each file starts, so files already running can go slightly over. Skipped files are listed in processingIssues.',
+                },
+                {
+                    displayName: 'Pricing Overrides',
+                    name: 'pricingOverrides',
+                    type: 'fixedCollection',
+                    placeholder: 'Add Price',
+                    typeOptions: {
+                        multipleValues: true,
+                    },
+                    default: {},
+                    description: 'Prices that replace the built-in list, e.g. negotiated Azure prices',
+                    options: [
+                        {
+                            displayName: 'Price',
+                            name: 'price',
+                            values: [
+                                {
+                                    displayName: 'Model or Deployment',
+                                    name: 'model',
+                                    type: 'string',
+                                    default: '',
+                                    placeholder: 'e.g. my-gpt-4o-deployment',
+                                    description: 'Model ID or Azure deployment name, matched exactly (case-insensitive)',
+                                },
+                                {
+                                    displayName: 'Input Price (USD per 1M Tokens)',
+                                    name: 'inputPrice',
+                                    type: 'number',
+                                    typeOptions: { minValue: 0, numberPrecision: 4 },
+                                    default: 0,
+                                },
+                                {
+                                    displayName: 'Output Price (USD per 1M Tokens)',
+                                    name: 'outputPrice',
+                                    type: 'number',
+                                    typeOptions: { minValue: 0, numberPrecision: 4 },
+                                    default: 0,
+                                },
+                            ],
+                        },
+                    ],
+                },
+            ],
+        },
+
+        // --- Optional Settings Grouped ---
+        {
+            displayName: 'Processing Options',
+            name: 'processingOptions',
+            type: 'collection',
+            placeholder: 'Add Processing Option',
+            default: {},
+            description: 'Optional settings to control the OCR and document handling process',
+            hint: 'Configure advanced OCR and document processing behaviors.',
             options: [
                 { displayName: 'Cleanup Temp Files', name: 'cleanup', type: 'boolean', default: true, description: 'Whether Limescape Docs should clean up its temporary files', hint: 'Automatically delete temporary files after processing. Default: true.' },
                 { displayName: 'Concurrency', name: 'concurrency', type: 'number', default: 10, description: 'Internal concurrency limit for Limescape Docs operations', hint: 'Maximum parallel operations within the processor. Default: 10.' },
@@ -520,7 +3438,7 @@ const versionDescription: INodeTypeDescription = {
                     hint: 'Select schema property keys to extract per page. Only top-level keys supported. Nested properties are extracted as complete units.',
                     typeOptions: {
                         loadOptionsMethod: 'getSchemaPropertyKeys',
-                        loadOptionsDependsOn: ['schema'],
+                        loadOptionsDependsOn: ['schemaSource', 'schema', 'schemaFields', 'documentPreset'],
                     },
                 },
                 { displayName: 'Image Density (DPI)', name: 'imageDensity', type: 'number', default: 150, description: 'Target DPI for image conversion during OCR', typeOptions: { minValue: 70 }, hint: 'Resolution for image conversion during OCR. Min: 70. Default: 150.' },
@@ -532,6 +3450,7 @@ const versionDescription: INodeTypeDescription = {
                 { displayName: 'Max Tesseract Workers', name: 'maxTesseractWorkers', type: 'number', default: -1, description: 'Max Tesseract workers (-1 for auto)', hint: 'Number of parallel Tesseract OCR processes. Default: -1 (auto-detect).' },
                 { displayName: 'Output Directory', name: 'outputDir', type: 'string', default: '', description: 'Directory to save intermediate/output files (optional, uses temp if empty)', hint: 'Optional: Save intermediate files here. Default: empty (uses system temp).' },
                 { displayName: 'Pages To Convert As Images', name: 'pagesToConvertAsImages', type: 'string', default: '', description: 'Comma-separated page numbers/ranges to force image conversion', hint: 'Force specific pages/ranges (e.g., 1,3-5) to be treated as images. Default: empty.' },
+                { displayName: 'Per Document Timeout (Seconds)', name: 'documentTimeout', type: 'number', default: 0, typeOptions: { minValue: 0 }, description: 'Maximum time to spend on one file before it fails with a timeout error. 0 means no limit.', hint: 'Only the file that runs out of time fails; the other files continue. The running Limescape Docs call cannot be stopped: it keeps running in the background and its tokens are still billed (and count towards Max Budget once it finishes). Default: 0 (no limit).' },
                 { displayName: 'Prompt', name: 'prompt', type: 'string', default: '', typeOptions: { rows: 4 }, description: 'Custom prompt to guide the LLM extraction/analysis', hint: 'Provide a custom prompt for the main AI processing step. Default: empty.' },
                 { displayName: 'Temporary Directory', name: 'tempDir', type: 'string', default: '', description: 'Directory for temporary processing files (optional, uses OS temp if empty)', hint: 'Optional: Specify a directory for temporary files. Default: empty (uses system temp).' },
                 { displayName: 'Trim Edges', name: 'trimEdges', type: 'boolean', default: true, description: 'Whether to attempt to trim whitespace/borders from document images', hint: 'Remove excess whitespace around page images. Default: true.' },
@@ -541,6 +3460,11 @@ const versionDescription: INodeTypeDescription = {
             displayName: 'Extraction Specifics',
             name: 'extractionOptions',
             type: 'collection',
+            displayOptions: {
+                show: {
+                    operation: ['processDocument'],
+                },
+            },
             placeholder: 'Add Extraction Option',
             default: {},
             description: 'Optional settings specific to the extraction model/prompt, overriding main settings if provided',
@@ -554,13 +3478,18 @@ const versionDescription: INodeTypeDescription = {
                     { name: 'Google Vertex', value: LimescapeModelProvider.VERTEX },
                     { name: 'AWS Bedrock', value: LimescapeModelProvider.BEDROCK },
                 ], default: '', description: 'Override provider for extraction step', hint: 'Optional: Select a different AI provider just for extraction. Default: empty (use main provider).' },
-                { displayName: 'Extraction Model', name: 'extractionModel', type: 'options', options: [
-                    { name: 'Claude 4.5 Sonnet (Bedrock)', value: 'anthropic.claude-4.5-sonnet-20250929-v1:0' },
-                    { name: 'Gemini 2.5 Pro (Google)', value: 'gemini-2.5-pro' },
-                    { name: 'Gemini 3 Pro Preview (Google)', value: 'gemini-3-pro-preview' },
-                    { name: 'GPT-4o (OpenAI/Azure)', value: 'gpt-4o' },
-                    { name: 'GPT-5.1 (OpenAI/Azure)', value: 'gpt-5.1' },
-                ], default: 'gpt-5.1', description: 'Override model for extraction step', hint: 'Optional: Select a different AI model just for extraction. Default: gpt-5.1.' },
+                {
+                    displayName: 'Extraction Model Name or ID',
+                    name: 'extractionModel',
+                    type: 'options',
+                    typeOptions: {
+                        loadOptionsMethod: 'getExtractionModels',
+                        loadOptionsDependsOn: ['extractionOptions.extractionModelProvider', 'modelProvider'],
+                    },
+                    default: 'gpt-5.1',
+                    description: 'Override model for extraction step. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+                    hint: 'Optional: Select a different AI model just for extraction. Listed from the extraction provider when available. Default: gpt-5.1.',
+                },
                 { displayName: 'Custom Extraction Model', name: 'customExtractionModel', type: 'string', default: '', description: 'Override custom model for extraction step', hint: 'Optional: Enter a specific model ID to override the Extraction Model. Default: empty.' },
                 { displayName: 'Extraction Prompt', name: 'extractionPrompt', type: 'string', default: '', typeOptions: { rows: 4 }, description: 'Specific prompt for the extraction step', hint: 'Optional: Provide a prompt specifically for the extraction step. Default: empty (use main prompt or schema).' },
             ],
@@ -587,6 +3516,11 @@ const versionDescription: INodeTypeDescription = {
             displayName: 'Extraction LLM Parameters',
             name: 'extractionLlmParameters',
             type: 'collection',
+            displayOptions: {
+                show: {
+                    operation: ['processDocument'],
+                },
+            },
             placeholder: 'Add Extraction LLM Parameter',
             default: {},
             description: 'Optional parameters to control the extraction LLM generation, overriding main LLM parameters',
@@ -615,356 +3549,900 @@ export class LimescapeDocsV1 implements INodeType {
     }
 
     methods = {
+        credentialTest: {
+            async limescapeDocsApiTest(
+                this: ICredentialTestFunctions,
+                credential: ICredentialsDecrypted,
+            ): Promise<INodeCredentialTestResult> {
+                const results = await checkConfiguredProviders(
+                    (credential.data ?? {}) as IDataObject,
+                    async ({ method, url, headers, body }) => {
+                        const response = await this.helpers.request({
+                            method,
+                            uri: url,
+                            headers,
+                            body,
+                            resolveWithFullResponse: true,
+                            simple: false,
+                        });
+                        return { statusCode: response.statusCode, body: parseResponseBody(response.body) };
+                    },
+                );
+
+                if (results.length === 0) {
+                    return { status: 'Error', message: 'No provider is configured in this credential.' };
+                }
+
+                return {
+                    status: results.every((result) => result.ok) ? 'OK' : 'Error',
+                    message: formatProviderCheckResults(results),
+                };
+            },
+        },
+
         loadOptions: {
             async getSchemaPropertyKeys(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
-                const schemaRaw = this.getCurrentNodeParameter('schema') as string | undefined;
+                const schemaSource = (this.getCurrentNodeParameter('schemaSource') ?? 'json') as SchemaSource;
+                let schema: { properties?: unknown } | undefined;
+
+                try {
+                    if (schemaSource !== 'json') {
+                        schema = buildSchemaFromSource(
+                            schemaSource,
+                            this.getCurrentNodeParameter('schemaFields'),
+                            (this.getCurrentNodeParameter('documentPreset') ?? 'invoice') as DocumentPreset,
+                        );
+                    } else {
+                        const schemaRaw = this.getCurrentNodeParameter('schema') as string | undefined;
+
+                        if (!schemaRaw || typeof schemaRaw !== 'string') {
+                            return [];
+                        }
+
+                        const trimmed = schemaRaw.trim();
+                        if (trimmed === '' || trimmed === '{}') {
+                            return [];
+                        }
 
-                if (!schemaRaw || typeof schemaRaw !== 'string') {
+                        schema = JSON.parse(trimmed);
+                    }
+                } catch {
+                    // Invalid JSON, builder fields or preset - return empty array, n8n will show "No options available"
                     return [];
                 }
 
-                const trimmed = schemaRaw.trim();
-                if (trimmed === '' || trimmed === '{}') {
+                if (!schema || typeof schema !== 'object' || !schema.properties) {
                     return [];
                 }
 
-                try {
-                    const schema = JSON.parse(trimmed);
-                    if (!schema || typeof schema !== 'object' || !schema.properties) {
-                        return [];
-                    }
-
-                    const properties = schema.properties as Record<string, { type?: string; description?: string }>;
-                    const keys = Object.keys(properties);
-
-                    if (keys.length === 0) {
-                        return [];
-                    }
+                const properties = schema.properties as Record<string, { type?: string; description?: string }>;
+                const keys = Object.keys(properties);
 
-                    return keys.map((key) => {
-                        const prop = properties[key];
-                        const typeStr = prop?.type || 'unknown';
-                        const desc = prop?.description ? ` - ${prop.description.slice(0, 50)}${prop.description.length > 50 ? '...' : ''}` : '';
-                        return {
-                            name: `${key} (${typeStr})`,
-                            value: key,
-                            description: `Type: ${typeStr}${desc}`,
-                        };
-                    });
-                } catch {
-                    // Invalid JSON - return empty array, n8n will show "No options available"
+                if (keys.length === 0) {
                     return [];
                 }
+
+                return keys.map((key) => {
+                    const prop = properties[key];
+                    const typeStr = prop?.type || 'unknown';
+                    const desc = prop?.description ? ` - ${prop.description.slice(0, 50)}${prop.description.length > 50 ? '...' : ''}` : '';
+                    return {
+                        name: `${key} (${typeStr})`,
+                        value: key,
+                        description: `Type: ${typeStr}${desc}`,
+                    };
+                });
             },
 
             async getModelsForProvider(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
-                const provider = this.getCurrentNodeParameter('modelProvider') as string;
-                const by = (entries: Array<INodePropertyOptions>) => entries;
-                if (provider === LimescapeModelProvider.OPENAI || provider === LimescapeModelProvider.AZURE) {
-                    return by([
-                        { name: 'GPT-5.1', value: 'gpt-5.1' },
-                        { name: 'GPT-5.1 Mini', value: 'gpt-5.1-mini' },
-                        { name: 'GPT-5.1 Standard', value: 'gpt-5.1-standard' },
-                        { name: 'GPT-4.1', value: 'gpt-4.1' },
-                        { name: 'GPT-4.1 Mini', value: 'gpt-4.1-mini' },
-                        { name: 'GPT-4o Mini', value: 'gpt-4o-mini' },
-                        { name: 'GPT-4o', value: 'gpt-4o' },
-                    ]);
-                }
-                if (provider === LimescapeModelProvider.GOOGLE) {
-                    return by([
-                        { name: 'Gemini 2.5 Pro', value: 'gemini-2.5-pro' },
-                        { name: 'Gemini 2.5 Flash', value: 'gemini-2.5-flash' },
-                        { name: 'Gemini 3 Pro Preview', value: 'gemini-3-pro-preview' },
-                    ]);
-                }
-                if (provider === LimescapeModelProvider.AZURE_AIF) {
-                    return by([
-                        { name: 'GPT-5.1', value: 'gpt-5.1' },
-                        { name: 'GPT-5.1 Mini', value: 'gpt-5.1-mini' },
-                        { name: 'GPT-5.1 Standard', value: 'gpt-5.1-standard' },
-                        { name: 'GPT-4.1', value: 'gpt-4.1' },
-                        { name: 'GPT-4.1 Mini', value: 'gpt-4.1-mini' },
-                        { name: 'GPT-4o Mini', value: 'gpt-4o-mini' },
-                        { name: 'GPT-4o', value: 'gpt-4o' },
-                        { name: 'Claude 4.5 Sonnet', value: 'anthropic.claude-4.5-sonnet-20250929-v1:0' },
-                        { name: 'Claude 4.1 Sonnet', value: 'anthropic.claude-4.1-sonnet-20250810-v1:0' },
-                        { name: 'Claude 4 Opus', value: 'anthropic.claude-4-opus-20250415-v1:0' },
-                        { name: 'Claude 4 Haiku', value: 'anthropic.claude-4-haiku-20250601-v1:0' },
-                    ]);
-                }
-                if (provider === LimescapeModelProvider.VERTEX) {
-                    return by([
-                        { name: 'Gemini 2.5 Pro', value: 'gemini-2.5-pro' },
-                        { name: 'Gemini 2.5 Flash', value: 'gemini-2.5-flash' },
-                        { name: 'Gemini 3 Pro Preview', value: 'gemini-3-pro-preview' },
-                        { name: 'Claude 4.5 Sonnet (Bedrock)', value: 'anthropic.claude-4.5-sonnet-20250929-v1:0' },
-                        { name: 'Claude 4.1 Sonnet (Bedrock)', value: 'anthropic.claude-4.1-sonnet-20250810-v1:0' },
-                    ]);
-                }
-                if (provider === LimescapeModelProvider.BEDROCK) {
-                    return by([
-                        { name: 'Claude 4.5 Sonnet', value: 'anthropic.claude-4.5-sonnet-20250929-v1:0' },
-                        { name: 'Claude 4.1 Sonnet', value: 'anthropic.claude-4.1-sonnet-20250810-v1:0' },
-                        { name: 'Claude 4 Opus', value: 'anthropic.claude-4-opus-20250415-v1:0' },
-                        { name: 'Claude 4 Haiku', value: 'anthropic.claude-4-haiku-20250601-v1:0' },
-                    ]);
-                }
-                return by([{ name: 'GPT-4o Mini', value: 'gpt-4o-mini' }]);
+                const provider = this.getCurrentNodeParameter('modelProvider') as LimescapeModelProvider;
+                return await loadModelOptions(this, provider, getStaticModelsForProvider(provider));
+            },
+
+            async getExtractionModels(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+                const extractionOptions = (this.getCurrentNodeParameter('extractionOptions') ?? {}) as IDataObject;
+                const provider = (extractionOptions.extractionModelProvider as LimescapeModelProvider | undefined)
+                    || (this.getCurrentNodeParameter('modelProvider') as LimescapeModelProvider);
+                return await loadModelOptions(this, provider, STATIC_EXTRACTION_MODELS);
             },
         },
     };
 
     async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
         const items = this.getInputData();
-        const successData: INodeExecutionData[] = [];
-
-        // --- Aggregation Variables ---
-        let aggregatedResults: {
-            filenames: string[];
-            filetypes: string[];
-            markdown: string;
-            completionTime: number;
-            inputTokens: number;
-            outputTokens: number;
-            pagesProcessed: number;
-            extractedData: any[];
-            summaries: string[];
-            processingIssues: string[];
-        } = {
-            filenames: [],
-            filetypes: [],
-            markdown: "",
-            completionTime: 0,
-            inputTokens: 0,
-            outputTokens: 0,
-            pagesProcessed: 0,
-            extractedData: [],
-            summaries: [],
-            processingIssues: [],
-        };
-        let processedFileCount = 0;
+        const outcomes: DocumentOutcome[] = [];
 
         // --- Get Global Node Parameters ---
-        const binaryPropertyName = this.getNodeParameter('binaryPropertyName', 0) as string;
-        const globalModelProvider = this.getNodeParameter('modelProvider', 0) as LimescapeModelProvider;
-        const globalModel = this.getNodeParameter('model', 0) as string;
-        const globalCustomModel = this.getNodeParameter('customModel', 0, '') as string;
-        const globalSchemaRaw = this.getNodeParameter('schema', 0, '') as string | object;
-        const globalProcessingOptions = this.getNodeParameter('processingOptions', 0, {}) as IDataObject;
-        const globalExtractionOptions = this.getNodeParameter('extractionOptions', 0, {}) as IDataObject;
-        const globalLlmParameters = this.getNodeParameter('llmParameters', 0, {}) as IDataObject;
-        const globalExtractionLlmParameters = this.getNodeParameter('extractionLlmParameters', 0, {}) as IDataObject;
-        const globalGemini3Options = this.getNodeParameter('gemini3Options', 0, {}) as IDataObject;
-
-        // --- Parameter Validation Safeguards ---
-        const checkMaxTokens = (params: IDataObject, context: string) => {
-            if (params && params.maxTokens !== undefined && params.maxTokens !== null) {
-                const val = Number(params.maxTokens);
-                if (isNaN(val) || val < 1024 || val > 16383) {
-                    throw new NodeOperationError(this.getNode(), `${context}: Max Tokens must be between 1024 and 16383.`, { itemIndex: -1 });
-                }
+        const operation = this.getNodeParameter('operation', 0, 'processDocument') as Operation;
+        const inputSource = this.getNodeParameter('inputSource', 0, 'binary') as InputSource;
+        const binaryInputMode = inputSource === 'binary'
+            ? this.getNodeParameter('binaryInputMode', 0, 'single') as BinaryInputMode
+            : 'single';
+        const outputMode = this.getNodeParameter('outputMode', 0, 'aggregated') as OutputMode;
+        const useErrorOutput = this.getNodeParameter('errorOutput', 0, false) as boolean;
+        const continueOnFail = this.continueOnFail();
+        const parallelDocuments = this.getNodeParameter('parallelDocuments', 0, 1) as number;
+        const useCache = operation !== 'preflight' && this.getNodeParameter('useCache', 0, false) as boolean;
+        const cacheOptions = useCache ? this.getNodeParameter('cacheOptions', 0, {}) as IDataObject : {};
+        const cacheDirectory = (cacheOptions.cacheDirectory as string | undefined)?.trim() || DEFAULT_CACHE_DIRECTORY;
+        const cacheTtlSeconds = Math.max(0, Number(cacheOptions.ttlHours ?? 168)) * 3600;
+        const costOptions = this.getNodeParameter('costOptions', 0, {}) as IDataObject;
+        const maxBudget = Math.max(0, Number(costOptions.maxBudget ?? 0));
+        const exportSpreadsheet = operation === 'processDocument' && outputMode !== 'perPage'
+            && this.getNodeParameter('exportSpreadsheet', 0, false) as boolean;
+        const spreadsheetOptions = exportSpreadsheet
+            ? this.getNodeParameter('spreadsheetOptions', 0, {}) as IDataObject
+            : {};
+        const renditions = operation === 'processDocument' && outputMode !== 'perPage'
+            ? this.getNodeParameter('renditions', 0, []) as RenditionFormat[]
+            : [];
+        const includeResolvedSchema = this.getNodeParameter('includeResolvedSchema', 0, false) as boolean;
+        // Aborted when the execution is stopped; files still waiting or running then fail at once
+        const cancelSignal = this.getExecutionCancelSignal();
+
+        // --- Classification Settings ---
+        // Categories define the outputs, so they are the same for every item
+        const categories: ClassificationCategory[] = operation === 'classify'
+            ? getClassificationCategories(this.getNodeParameter('categories', 0, {}))
+            : [];
+        const routeByCategory = operation === 'classify'
+            ? this.getNodeParameter('routeByCategory', 0, false) as boolean
+            : false;
+        // Files below a confidence threshold go to a second main output
+        const reviewLowConfidence = operation === 'processDocument'
+            && this.getNodeParameter('reviewLowConfidence', 0, false) as boolean;
+        // Must match the main outputs declared by configuredOutputs
+        const mainOutputCount = routeByCategory ? categories.length + 1 : reviewLowConfidence ? 2 : 1;
+
+        if (operation === 'classify') {
+            if (categories.length === 0) {
+                throw new NodeOperationError(this.getNode(), 'Classify: Add at least one category.', { itemIndex: -1 });
             }
-        };
-        checkMaxTokens(globalLlmParameters, 'LLM Parameters');
-        checkMaxTokens(globalExtractionLlmParameters, 'Extraction LLM Parameters');
-
-        // Validate imageDensity in Processing Options
-        if (globalProcessingOptions && globalProcessingOptions.imageDensity !== undefined) {
-            const density = Number(globalProcessingOptions.imageDensity);
-            if (
-                globalProcessingOptions.imageDensity === null ||
-                globalProcessingOptions.imageDensity === '' ||
-                isNaN(density) ||
-                density === 0 ||
-                density < 70
-            ) {
-                throw new NodeOperationError(this.getNode(), 'Processing Options: Image Density (DPI) must be a number and at least 70.', { itemIndex: -1 });
+            if (categories.some((category) => !category.name)) {
+                throw new NodeOperationError(this.getNode(), 'Classify: Every category needs a name.', { itemIndex: -1 });
             }
         }
 
+        // --- Get Per-Item Parameters ---
+        // Model, schema, prompts and options may be expressions that differ per item
+        const settingsContext: ItemSettingsContext = {
+            operation,
+            inputSource,
+            binaryInputMode,
+            categories,
+            reviewLowConfidence,
+            pricingOverrides: getPricingOverrides(costOptions.pricingOverrides),
+            schemaCache: new Map(),
+        };
+        // A bad per-item value, such as an invalid schema, fails only its own item
+        const settingsErrors = new Map<number, unknown>();
+        const itemSettings: Array<ItemSettings | undefined> = items.map((_, index) => {
+            try {
+                return readItemSettings(this, index, settingsContext);
+            } catch (error) {
+                settingsErrors.set(index, error);
+                return undefined;
+            }
+        });
+        const validSettings = itemSettings.filter((settings): settings is ItemSettings => !!settings);
+
         // --- Get Credentials ---
-        const credentials = await this.getCredentials('limescapeDocsApi') as IDataObject;
+        // Loaded once per provider used by any item; preflight never calls a provider, so it runs without credentials
+        const credentialMode = this.getNodeParameter('authentication', 0, 'combined') as CredentialMode;
+        const needsCredentials = operation !== 'preflight';
+        const providers = new Set<LimescapeModelProvider>();
+        if (needsCredentials) {
+            for (const settings of validSettings) {
+                providers.add(settings.modelProvider);
+                if (settings.extractionProvider) providers.add(settings.extractionProvider);
+            }
+        }
+        // Fallback providers are optional: one without usable credentials is skipped when its turn comes
+        const fallbackProviders = new Set<LimescapeModelProvider>();
+        for (const settings of validSettings) {
+            for (const fallback of settings.fallbackModels) {
+                fallbackProviders.add(fallback.provider);
+                if (fallback.extractionProvider) fallbackProviders.add(fallback.extractionProvider);
+            }
+        }
+        const modelCredentialsByProvider = new Map<LimescapeModelProvider, ModelCredentials>();
+        const credentialErrors = new Map<LimescapeModelProvider, unknown>();
+        for (const provider of new Set([...providers, ...fallbackProviders])) {
+            try {
+                const credentials = await getCredentialsForProvider(this, credentialMode, provider);
+                modelCredentialsByProvider.set(provider, mapCredentialsForProvider(this, provider, credentials));
+            } catch (error) {
+                credentialErrors.set(provider, error);
+            }
+        }
+        // A provider without usable credentials fails only the items that use it
+        if (needsCredentials) {
+            itemSettings.forEach((settings, index) => {
+                const provider = [settings?.modelProvider, settings?.extractionProvider]
+                    .find((candidate) => candidate && credentialErrors.has(candidate));
+                if (!provider) return;
+                settingsErrors.set(index, credentialErrors.get(provider));
+                itemSettings[index] = undefined;
+            });
+        }
 
         try {
-            const baseModelCredentials = mapCredentialsForProvider(this, globalModelProvider, credentials);
-            let baseExtractionCredentials: ModelCredentials | undefined;
-            const extractionProvider = globalExtractionOptions.extractionModelProvider as LimescapeModelProvider | undefined;
-            if (extractionProvider) {
-                baseExtractionCredentials = mapCredentialsForProvider(this, extractionProvider, credentials);
+            if (useCache && cacheOptions.clearCache) {
+                clearCache(cacheDirectory);
             }
 
-            // --- Parse Global Schema Once ---
-            const globalSchema = parseSchema(this, globalSchemaRaw);
-
-            // Build LLM params objects once
-            const globalLlmParams = buildLLMParams(globalLlmParameters);
-            const globalExtractionLlmParams = buildLLMParams(globalExtractionLlmParameters);
-
             // --- Process Each Item ---
-            // Get attachment filter settings
-            const attachmentFilter = this.getNodeParameter('attachmentFilter', 0, {}) as IDataObject;
-            const filterMode = (attachmentFilter.filterMode as string) || 'include';
-            const extensions = typeof attachmentFilter.extensions === 'string'
-                ? attachmentFilter.extensions.split(',').map(e => e.trim().toLowerCase()).filter(e => !!e)
-                : [];
+            // Shared by all tasks; only finished files count towards Max Budget
+            let estimatedSpend = 0;
+
+            // Each task resolves to the outcomes of one file, or of each file unpacked from an archive;
+            // the pool keeps outcomes in task order
+            const tasks: Array<() => Promise<DocumentOutcome[]>> = [];
 
             for (let i = 0; i < items.length; i++) {
-                let tempFilePath: string | null = null;
-                let currentFilename = `item_${i}_binary`;
-                let currentExtension = '';
                 const item = items[i];
+                const settings = itemSettings[i];
+                if (!settings) {
+                    const settingsError = settingsErrors.get(i);
+                    tasks.push(async () => [{
+                        itemIndex: i,
+                        binaryPropertyName: '',
+                        fileName: `item_${i}`,
+                        fileType: '',
+                        status: 'error',
+                        error: settingsError instanceof Error ? settingsError.message : String(settingsError),
+                        processingIssues: [],
+                    }]);
+                    continue;
+                }
+                // URL, File Path and Base64 Field give one file per item, without a binary property
+                const propertyNames = inputSource === 'binary'
+                    ? resolveBinaryPropertyNames(item, binaryInputMode, settings.binaryPropertyName, settings.binaryPropertyPattern)
+                    : [''];
 
-                // --- Attachment filter logic ---
-                if (item.binary) {
-                    const binaryData = item.binary[binaryPropertyName] as IBinaryData;
-                    currentFilename = binaryData.fileName || currentFilename;
-                    currentExtension = path.extname(currentFilename).substring(1).toLowerCase();
-                    const shouldProcess = filterMode === 'include'
-                        ? extensions.includes(currentExtension)
-                        : !extensions.includes(currentExtension);
-                    if (!shouldProcess) {
-                        aggregatedResults.processingIssues.push(`Skipped Item ${i} (${currentFilename}): Filtered out by attachment filter.`);
-                        continue;
-                    }
+                if (propertyNames.length === 0) {
+                    tasks.push(async () => [{
+                        itemIndex: i,
+                        binaryPropertyName: '',
+                        fileName: `item_${i}_binary`,
+                        fileType: '',
+                        status: 'error',
+                        error: binaryInputMode === 'pattern'
+                            ? `No binary properties matching '${settings.binaryPropertyPattern}' found for item ${i}.`
+                            : `No binary properties found for item ${i}.`,
+                        processingIssues: [],
+                    }]);
+                    continue;
                 }
 
-                try {
-                    // --- 1. Get Binary Data ---
-                    if (!item.binary || !item.binary[binaryPropertyName]) {
-                        throw new NodeOperationError(this.getNode(), `Missing binary data in property '${binaryPropertyName}' for item ${i}.`, { itemIndex: i });
-                    }
-                    const binaryData = item.binary[binaryPropertyName] as IBinaryData;
-                    currentFilename = binaryData.fileName || currentFilename;
-                    currentExtension = path.extname(currentFilename).substring(1).toLowerCase();
+                for (const propertyName of propertyNames) {
+                    const itemLabel = binaryInputMode === 'single' ? `Item ${i}` : `Item ${i} '${propertyName}'`;
+                    const isFilteredOut = (extension: string) => (settings.filterMode === 'include'
+                        ? !settings.extensions.includes(extension)
+                        : settings.extensions.includes(extension));
+                    const toErrorOutcome = (
+                        error: unknown,
+                        fileName: string,
+                        fileType: string,
+                        processingIssues: string[],
+                        origin: FileOrigin = {},
+                    ): DocumentOutcome => {
+                        const failedFallback = error instanceof Error ? failedFallbacks.get(error) : undefined;
+                        return {
+                            itemIndex: i,
+                            binaryPropertyName: propertyName,
+                            ...origin,
+                            fileName,
+                            fileType,
+                            status: 'error',
+                            error: error instanceof Error ? error.message : String(error),
+                            errorDetails: {
+                                ...describeProviderError(error),
+                                provider: failedFallback?.provider ?? settings.modelProvider,
+                                model: failedFallback?.model ?? settings.model,
+                                extractionProvider: failedFallback ? failedFallback.extractionProvider : settings.extractionProvider,
+                                extractionModel: failedFallback
+                                    ? failedFallback.extractionModel ?? undefined
+                                    : (settings.extractionOptions.customExtractionModel as string) || (settings.extractionOptions.extractionModel as string) || undefined,
+                            },
+                            processingIssues,
+                        };
+                    };
 
-                    const fileBuffer = await this.helpers.getBinaryDataBuffer(i, binaryPropertyName);
+                    // Processes one file: the item's own file or one unpacked from it
+                    const processFile = async (document: InputDocument, origin: FileOrigin = {}): Promise<DocumentOutcome> => {
+                        let tempFilePath: string | null = null;
+                        let workDir: string | null = null;
+                        let deadline: DocumentDeadline | undefined;
+                        const currentFilename = document.fileName;
+                        const currentExtension = document.extension;
+                        const { data: fileBuffer, mimeType } = document;
+                        const processingIssues: string[] = [];
+                        const container = origin.archivePath ?? origin.email?.file;
+                        const sourceLabel = container ? `${itemLabel} '${container}'` : itemLabel;
 
-                    // --- 2. Create Temporary File ---
-                    const tempDir = (globalProcessingOptions.tempDir as string || os.tmpdir()).trim();
-                    if (tempDir) {
-                        ensureDirSync(tempDir);
-                    }
-                    tempFilePath = path.join(tempDir || os.tmpdir(), `n8n_limescape_docs_${Date.now()}_${i}_${path.basename(currentFilename)}`);
-                    fs.writeFileSync(tempFilePath, fileBuffer);
-
-                    // --- 3. Prepare LimescapeDocs arguments for this item ---
-                    const effectiveModel = globalCustomModel || globalModel;
-                    const limescapeArgs = buildLimescapeArgsForItem({
-                        filePath: tempFilePath,
-                        modelProvider: globalModelProvider,
-                        model: effectiveModel,
-                        schema: globalSchema,
-                        processingOptions: globalProcessingOptions,
-                        extractionOptions: globalExtractionOptions,
-                        llmParams: globalLlmParams,
-                        extractionLlmParams: globalExtractionLlmParams,
-                        baseCredentials: baseModelCredentials,
-                        baseExtractionCredentials,
-                    });
+                        // --- Attachment filter logic ---
+                        // An email body is the message itself, not an attachment
+                        if (origin.email?.part !== 'body' && isFilteredOut(currentExtension)) {
+                            return {
+                                itemIndex: i,
+                                binaryPropertyName: propertyName,
+                                ...origin,
+                                fileName: currentFilename,
+                                fileType: currentExtension,
+                                status: 'skipped',
+                                processingIssues: [`Skipped ${sourceLabel} (${currentFilename}): Filtered out by attachment filter.`],
+                            };
+                        }
+
+                        // --- Budget check ---
+                        if (maxBudget > 0 && estimatedSpend >= maxBudget) {
+                            return {
+                                itemIndex: i,
+                                binaryPropertyName: propertyName,
+                                ...origin,
+                                fileName: currentFilename,
+                                fileType: currentExtension,
+                                status: 'skipped',
+                                processingIssues: [`Skipped ${sourceLabel} (${currentFilename}): Max Budget of ${maxBudget} USD reached (estimated spend ${roundCost(estimatedSpend)} USD).`],
+                            };
+                        }
+
+                        try {
+                            if (operation === 'preflight') {
+                                return {
+                                    itemIndex: i,
+                                    binaryPropertyName: propertyName,
+                                    ...origin,
+                                    fileName: currentFilename,
+                                    fileType: currentExtension,
+                                    status: 'success',
+                                    preflight: await buildPreflightReport({
+                                        file: fileBuffer,
+                                        fileName: currentFilename,
+                                        fileType: currentExtension,
+                                        mimeType,
+                                        provider: settings.modelProvider,
+                                        model: settings.model,
+                                        modelPrice: settings.modelPrice,
+                                        schema: settings.schema,
+                                        processingOptions: settings.processingOptions,
+                                        processingIssues,
+                                    }),
+                                    processingIssues,
+                                };
+                            }
+
+                            // Abandoned calls keep running and are still billed, so a late result counts towards Max Budget
+                            const countLateResult = (result: LimescapeDocsResult, args: LimescapeDocsArgs) => {
+                                const servedBy = toServedBy(args, 0);
+                                estimatedSpend += estimateFileCost(
+                                    toFileResult(result, Boolean(args.extractPageByPage)),
+                                    servedBy.model,
+                                    servedBy.extractionModel,
+                                    Boolean(args.extractOnly),
+                                    settingsContext.pricingOverrides,
+                                ).cost ?? 0;
+                            };
+                            deadline = createDocumentDeadline(cancelSignal, settings.documentTimeout, currentFilename);
+                            if (deadline.signal.aborted) {
+                                throw deadline.signal.reason;
+                            }
+
+                            // --- 2. Create Temporary File ---
+                            // Each file gets its own directory, also used by Limescape Docs for its temp files,
+                            // so everything can be removed when a call is abandoned
+                            const tempDir = (settings.processingOptions.tempDir as string || os.tmpdir()).trim();
+                            if (tempDir) {
+                                ensureDirSync(tempDir);
+                            }
+                            workDir = fs.mkdtempSync(path.join(tempDir || os.tmpdir(), 'n8n_limescape_docs_'));
+                            tempFilePath = path.join(workDir, `n8n_limescape_docs_${Date.now()}_${i}_${propertyName}_${path.basename(currentFilename)}`);
+                            // Classify sends only the leading pages of a PDF, so the rest is neither uploaded nor billed
+                            let callBuffer = fileBuffer;
+                            const isPdf = currentExtension === 'pdf' || mimeType === 'application/pdf';
+                            const isSinglePageImage = mimeType.startsWith('image/') && !['tif', 'tiff'].includes(currentExtension);
+                            if (settings.classificationPages > 0 && !isPdf && !isSinglePageImage) {
+                                processingIssues.push(`Pages to Classify only applies to PDFs, so the whole of ${currentFilename} was sent.`);
+                            }
+                            if (settings.classificationPages > 0 && isPdf) {
+                                try {
+                                    const pageCount = await getPdfPageCount(fileBuffer);
+                                    if (pageCount > settings.classificationPages) {
+                                        callBuffer = await extractPdfPages(fileBuffer, 1, settings.classificationPages);
+                                    }
+                                } catch (trimError) {
+                                    processingIssues.push(`Could not cut ${currentFilename} down to its first ${settings.classificationPages} page(s), so the whole file was sent: ${trimError instanceof Error ? trimError.message : String(trimError)}`);
+                                }
+                            }
+                            fs.writeFileSync(tempFilePath, callBuffer);
+
+                            // --- 3. Prepare LimescapeDocs arguments for this item ---
+                            const effectiveModel = settings.model;
+                            const gemini3Options = settings.gemini3Options;
+                            const limescapeArgs = buildLimescapeArgsForItem({
+                                filePath: tempFilePath,
+                                modelProvider: settings.modelProvider,
+                                model: effectiveModel,
+                                schema: settings.callSchema,
+                                processingOptions: settings.callProcessingOptions,
+                                extractionOptions: settings.callExtractionOptions,
+                                llmParams: settings.llmParams,
+                                extractionLlmParams: settings.extractionLlmParams,
+                                baseCredentials: modelCredentialsByProvider.get(settings.modelProvider) as ModelCredentials,
+                                baseExtractionCredentials: settings.extractionProvider
+                                    ? modelCredentialsByProvider.get(settings.extractionProvider)
+                                    : undefined,
+                            });
+                            limescapeArgs.tempDir = workDir;
+
+                            const isGemini3Model = typeof effectiveModel === 'string' && effectiveModel.toLowerCase().startsWith('gemini-3');
+                            if (isGemini3Model && gemini3Options && Object.keys(gemini3Options).length > 0) {
+                                limescapeArgs.googleOptions = limescapeArgs.googleOptions ?? {};
+                                limescapeArgs.googleOptions.gemini3 = {};
+
+                                if (typeof gemini3Options.thinkingLevel === 'string' && gemini3Options.thinkingLevel) {
+                                    limescapeArgs.googleOptions.gemini3.thinkingLevel = gemini3Options.thinkingLevel as 'low' | 'high';
+                                }
+
+                                if (typeof gemini3Options.mediaResolution === 'string' && gemini3Options.mediaResolution) {
+                                    limescapeArgs.googleOptions.gemini3.mediaResolution = gemini3Options.mediaResolution as 'low' | 'medium' | 'high';
+                                }
+                            }
+
+                            // --- 4. Call Limescape Docs (or reuse a cached result) ---
+                            const cacheKey = useCache
+                                ? computeCacheKey(fileBuffer, getCacheSettings(operation, limescapeArgs, settings.validationOptions))
+                                : undefined;
+                            const cachedResult = cacheKey && !cacheOptions.bypassCache
+                                ? readCacheEntry<FileResult>(cacheDirectory, cacheKey, cacheTtlSeconds)
+                                : undefined;
+
+                            let fileResult: FileResult;
+                            if (cachedResult) {
+                                fileResult = toCachedFileResult(cachedResult);
+                            } else {
+                                const served = await callWithFallback(
+                                    limescapeArgs,
+                                    settings.fallbackModels,
+                                    modelCredentialsByProvider,
+                                    currentFilename,
+                                    processingIssues,
+                                    deadline,
+                                    countLateResult,
+                                );
+                                fileResult = toFileResult(served.result, Boolean(limescapeArgs.extractPageByPage), settings.includeProvenance);
+                                fileResult.servedBy = served.servedBy;
+
+                                // --- 5. Validate Extraction Against Schema ---
+                                if (operation === 'processDocument' && settings.schema && settings.validationOptions.validateExtraction === true) {
+                                    fileResult.validation = await validateAndRepair(
+                                        served.args,
+                                        settings.schema,
+                                        fileResult,
+                                        Math.max(0, Number(settings.validationOptions.repairAttempts ?? 0)),
+                                        settings.includeProvenance,
+                                        deadline,
+                                        countLateResult,
+                                    );
+                                }
+
+                                if (settings.includeProvenance) {
+                                    completeFileProvenance(fileResult, Boolean(limescapeArgs.extractPageByPage));
+                                }
 
-                    const isGemini3Model = typeof effectiveModel === 'string' && effectiveModel.toLowerCase().startsWith('gemini-3');
-                    if (isGemini3Model && globalGemini3Options && Object.keys(globalGemini3Options).length > 0) {
-                        limescapeArgs.googleOptions = limescapeArgs.googleOptions ?? {};
-                        limescapeArgs.googleOptions.gemini3 = {};
+                                // Only valid results of the main model are cached: the key describes the main model, and
+                                // invalid or fallback results should be retried next time
+                                if (cacheKey && served.servedBy.fallback === 0 && (!fileResult.validation || fileResult.validation.valid)) {
+                                    try {
+                                        writeCacheEntry(cacheDirectory, cacheKey, fileResult);
+                                    } catch (cacheError) {
+                                        processingIssues.push(`Failed to cache result for ${currentFilename}: ${cacheError instanceof Error ? cacheError.message : String(cacheError)}`);
+                                    }
+                                }
+                            }
+
+                            // Checked on every run, also for cached results, so threshold changes apply at once
+                            if (settings.confidence) {
+                                fileResult.confidence = evaluateConfidence(
+                                    getConfidenceExtractions(fileResult, Boolean(limescapeArgs.extractPageByPage)),
+                                    settings.confidence,
+                                );
+                                if (settings.confidence.source === 'logprobs' && !fileResult.tokenConfidence) {
+                                    processingIssues.push(`No log probabilities were returned for ${currentFilename}. Turn on Log Probabilities in the LLM Parameters (or Extraction LLM Parameters) and use a model that supports them.`);
+                                }
+                            }
+
+                            // Priced at the models that served the file, which may be a fallback pair
+                            const servedBy = fileResult.servedBy ?? toServedBy(limescapeArgs, 0);
+                            const costEstimate = estimateFileCost(
+                                fileResult,
+                                servedBy.model,
+                                servedBy.extractionModel,
+                                Boolean(limescapeArgs.extractOnly),
+                                settingsContext.pricingOverrides,
+                            );
+                            fileResult.estimatedCost = costEstimate.cost;
+                            estimatedSpend += fileResult.estimatedCost ?? 0;
+                            if (costEstimate.unpricedModel && maxBudget > 0 && !fileResult.cached) {
+                                processingIssues.push(`No price known for model '${costEstimate.unpricedModel}'; ${currentFilename} does not count towards Max Budget. Add a pricing override.`);
+                            }
+                            if (costEstimate.approximateReason && !fileResult.cached) {
+                                processingIssues.push(`Estimated cost of ${currentFilename} is approximate: ${costEstimate.approximateReason}.`);
+                            }
+
+                            const validation = fileResult.validation;
+                            if (validation && !validation.valid) {
+                                processingIssues.push(`Schema validation failed for ${currentFilename}: ${validation.errors.length} error(s).`);
+                                if (settings.validationOptions.failOnInvalid) {
+                                    throw new NodeOperationError(
+                                        this.getNode(),
+                                        `Extracted data for ${currentFilename} does not match the schema: ${formatValidationErrors(validation.errors).join('; ')}`,
+                                        { itemIndex: i },
+                                    );
+                                }
+                            }
 
-                        if (typeof globalGemini3Options.thinkingLevel === 'string' && globalGemini3Options.thinkingLevel) {
-                            limescapeArgs.googleOptions.gemini3.thinkingLevel = globalGemini3Options.thinkingLevel as 'low' | 'high';
+                            if (operation === 'splitDocument') {
+                                const signals = fileResult.pages.map((page) => toPageSignals(page.pageNumber, page.extracted));
+                                const isPdf = currentExtension === 'pdf' || mimeType === 'application/pdf';
+                                const pageCount = isPdf ? await getPdfPageCount(fileBuffer) : Math.max(1, fileResult.pages.length);
+                                const ranges: DocumentRange[] = isPdf
+                                    ? detectDocumentRanges(signals, pageCount)
+                                    : [{ startPage: 1, endPage: pageCount, documentType: signals[0]?.documentType, documentReference: signals[0]?.documentReference }];
+                                if (!isPdf) {
+                                    processingIssues.push(`${sourceLabel} (${currentFilename}): Only PDF files can be split; returned as a single document.`);
+                                }
+
+                                const splitDocuments: SplitDocument[] = [];
+                                for (const range of ranges) {
+                                    const documentBuffer = isPdf ? await extractPdfPages(fileBuffer, range.startPage, range.endPage) : fileBuffer;
+                                    const documentFileName = isPdf
+                                        ? `${path.parse(currentFilename).name}_pages_${range.startPage}-${range.endPage}.pdf`
+                                        : currentFilename;
+                                    splitDocuments.push({
+                                        ...range,
+                                        markdown: fileResult.pages
+                                            .filter((page) => page.pageNumber >= range.startPage && page.pageNumber <= range.endPage)
+                                            .map((page) => page.markdown)
+                                            .join('\n\n'),
+                                        binary: await this.helpers.prepareBinaryData(
+                                            documentBuffer,
+                                            documentFileName,
+                                            isPdf ? 'application/pdf' : mimeType,
+                                        ),
+                                    });
+                                }
+
+                                return {
+                                    itemIndex: i,
+                                    binaryPropertyName: propertyName,
+                                    ...origin,
+                                    fileName: currentFilename,
+                                    fileType: currentExtension,
+                                    status: 'success',
+                                    result: fileResult,
+                                    splitDocuments,
+                                    processingIssues,
+                                };
+                            }
+
+                            if (operation === 'classify') {
+                                return {
+                                    itemIndex: i,
+                                    binaryPropertyName: propertyName,
+                                    ...origin,
+                                    fileName: currentFilename,
+                                    fileType: currentExtension,
+                                    status: 'success',
+                                    result: fileResult,
+                                    classification: parseClassification(fileResult.extracted, categories, settings.confidenceThreshold),
+                                    processingIssues,
+                                };
+                            }
+
+                            // --- 6. Return Successful Result ---
+                            return {
+                                itemIndex: i,
+                                binaryPropertyName: propertyName,
+                                ...origin,
+                                fileName: currentFilename,
+                                fileType: currentExtension,
+                                status: 'success',
+                                result: fileResult,
+                                processingIssues,
+                            };
+                        } catch (error) {
+                            return toErrorOutcome(error, currentFilename, currentExtension, processingIssues, origin);
+                        } finally {
+                            deadline?.dispose();
+                            // --- 7. Cleanup Temporary Files ---
+                            if (tempFilePath && fs.existsSync(tempFilePath)) {
+                                try {
+                                    fs.unlinkSync(tempFilePath);
+                                } catch (unlinkError) {
+                                    const errorMsg = `[Limescape Docs Node] Failed to delete temp file ${tempFilePath}: ${unlinkError instanceof Error ? unlinkError.message : String(unlinkError)}`;
+                                    console.error(errorMsg);
+                                    processingIssues.push(`Failed to delete temp file: ${path.basename(tempFilePath)}`);
+                                }
+                            }
+                            // Cleanup Temp Files off keeps whatever Limescape Docs left in the directory
+                            if (workDir && settings.processingOptions.cleanup !== false) {
+                                const directory = workDir;
+                                try {
+                                    fs.rmSync(directory, { recursive: true, force: true });
+                                } catch (removeError) {
+                                    console.error(`[Limescape Docs Node] Failed to delete temp directory ${directory}: ${removeError instanceof Error ? removeError.message : String(removeError)}`);
+                                    processingIssues.push(`Failed to delete temp directory: ${path.basename(directory)}`);
+                                }
+                                // Abandoned calls may still write files, so the directory is removed again once they end
+                                if (deadline && deadline.abandoned.length > 0) {
+                                    void Promise.allSettled(deadline.abandoned).then(() => {
+                                        try {
+                                            fs.rmSync(directory, { recursive: true, force: true });
+                                        } catch (removeError) {
+                                            console.error(`[Limescape Docs Node] Failed to delete temp directory ${directory}: ${removeError instanceof Error ? removeError.message : String(removeError)}`);
+                                        }
+                                    });
+                                }
+                            }
                         }
+                    };
 
-                        if (typeof globalGemini3Options.mediaResolution === 'string' && globalGemini3Options.mediaResolution) {
-                            limescapeArgs.googleOptions.gemini3.mediaResolution = globalGemini3Options.mediaResolution as 'low' | 'medium' | 'high';
+                    // Unpacks archives and emails into their files. Each kind is opened once per chain, so an
+                    // archive attached to an email or an email inside an archive is unpacked too.
+                    const processUnpacked = async (document: InputDocument, origin: FileOrigin): Promise<DocumentOutcome[]> => {
+                        const isArchive = settings.archiveLimits && !origin.archivePath && isZipArchive(document.data);
+                        const emailFormat = settings.emailOptions && !origin.email ? getEmailFormat(document) : undefined;
+                        if (!isArchive && !emailFormat) {
+                            return [await processFile(document, origin)];
                         }
-                    }
 
-                    // --- 4. Call Limescape Docs ---
-                    const result = await limescapeDocs({ ...limescapeArgs, errorMode: LimescapeErrorMode.THROW });
-
-                    // --- 5. Aggregate Successful Results ---
-                    if (aggregatedResults.markdown.length > 0) { aggregatedResults.markdown += "\n\n---\n\n"; }
-                    aggregatedResults.markdown += `### Attachment Start: ${currentFilename} (Type: ${currentExtension})\n\n`;
-
-                    const markdownText = result.pages && Array.isArray(result.pages)
-                        ? result.pages.map(page => page.content).join("\n\n")
-                        : "[No page content returned]";
-
-                    aggregatedResults.markdown += markdownText;
-                    aggregatedResults.markdown += `\n\n### Attachment End: ${currentFilename}\n\n`;
-
-                    aggregatedResults.filenames.push(currentFilename);
-                    aggregatedResults.filetypes.push(currentExtension);
-                    aggregatedResults.completionTime += (result.completionTime as number | undefined) || 0;
-                    aggregatedResults.inputTokens += (result.inputTokens as number | undefined) || 0;
-                    aggregatedResults.outputTokens += (result.outputTokens as number | undefined) || 0;
-                    aggregatedResults.pagesProcessed += Array.isArray(result.pages) ? result.pages.length : 0;
-
-                    // Handle extraction results based on extractPageByPage mode
-                    if (limescapeArgs.extractPageByPage && Array.isArray(result.pages)) {
-                        // Per-page extraction: push each page's extracted data
-                        for (const page of result.pages) {
-                            if (page.extracted) {
-                                aggregatedResults.extractedData.push(page.extracted);
+                        let parts: Array<{ document: InputDocument; origin: FileOrigin }> = [];
+                        let issues: string[] = [];
+                        try {
+                            if (isArchive && settings.archiveLimits) {
+                                // --- Unpack Archive ---
+                                const archive = expandArchive(document.data, document.fileName, settings.archiveLimits);
+                                issues = archive.issues;
+                                parts = archive.entries.map((entry) => ({
+                                    document: describeDocument(entry.data, path.basename(entry.path)),
+                                    origin: { ...origin, archivePath: entry.path },
+                                }));
+                            } else if (emailFormat && settings.emailOptions) {
+                                // --- Split Email ---
+                                const email = await parseEmail(emailFormat, document.data, document.fileName, settings.emailOptions);
+                                const attachments = email.parts
+                                    .filter((part) => part.part === 'attachment')
+                                    .map((part) => part.document.fileName);
+                                parts = email.parts.map((part) => ({
+                                    document: part.document,
+                                    origin: {
+                                        ...origin,
+                                        email: { file: document.fileName, part: part.part, ...email.headers, attachments },
+                                    },
+                                }));
                             }
+                        } catch (error) {
+                            return [toErrorOutcome(error, document.fileName, document.extension, [], origin)];
                         }
-                    } else if (result.extracted) {
-                        // Standard extraction: push the full document extraction
-                        aggregatedResults.extractedData.push(result.extracted);
-                    }
 
-                    if (result.summary) {
-                        aggregatedResults.summaries.push(typeof result.summary === 'string' ? result.summary : JSON.stringify(result.summary));
-                    }
+                        // Files of one archive or email run one after another; Parallel Documents applies across items and fields
+                        const partOutcomes: DocumentOutcome[] = [];
+                        for (const part of parts) {
+                            partOutcomes.push(...await processUnpacked(part.document, part.origin));
+                        }
+                        if (partOutcomes.length === 0) {
+                            return [{
+                                itemIndex: i,
+                                binaryPropertyName: propertyName,
+                                ...origin,
+                                fileName: document.fileName,
+                                fileType: document.extension,
+                                status: 'skipped',
+                                processingIssues: [
+                                    `Skipped ${itemLabel} (${document.fileName}): ${isArchive ? 'Archive contains no files.' : 'Email has no body or attachments to process.'}`,
+                                    ...issues,
+                                ],
+                            }];
+                        }
+                        // Issues about the archive itself (e.g. skipped entries) are reported with its first file
+                        partOutcomes[0].processingIssues.unshift(...issues);
+                        return partOutcomes;
+                    };
 
-                    processedFileCount++;
+                    tasks.push(async (): Promise<DocumentOutcome[]> => {
+                        let fileName = inputSource !== 'binary'
+                            ? `item_${i}_document`
+                            : binaryInputMode === 'single' ? `item_${i}_binary` : `item_${i}_${propertyName}`;
+                        let fileType = '';
 
-                } catch (error) {
-                    const errorMessage = error instanceof Error ? error.message : String(error);
-                    successData.push({
-                        json: { message: errorMessage, itemIndex: i, file: currentFilename },
-                        error: new NodeOperationError(this.getNode(), errorMessage, { itemIndex: i }),
-                        itemIndex: i,
-                    });
-                    continue;
-                } finally {
-                    // --- 6. Cleanup Temporary File ---
-                    if (tempFilePath && fs.existsSync(tempFilePath)) {
+                        // Binary files are filtered on their name before they are read. Archives and emails are
+                        // filtered per unpacked file instead, so zip, eml and msg need not be in the extension list.
+                        const binaryData = inputSource === 'binary' ? item.binary?.[propertyName] : undefined;
+                        if (binaryData) {
+                            fileName = binaryData.fileName || fileName;
+                            fileType = path.extname(fileName).substring(1).toLowerCase();
+                            const mayBeArchive = settings.archiveLimits && (fileType === 'zip' || binaryData.mimeType.includes('zip'));
+                            const mayBeEmail = settings.emailOptions
+                                && (['eml', 'msg'].includes(fileType) || ['message/rfc822', 'application/vnd.ms-outlook'].includes(binaryData.mimeType));
+                            if (!mayBeArchive && !mayBeEmail && isFilteredOut(fileType)) {
+                                return [{
+                                    itemIndex: i,
+                                    binaryPropertyName: propertyName,
+                                    fileName,
+                                    fileType,
+                                    status: 'skipped',
+                                    processingIssues: [`Skipped ${itemLabel} (${fileName}): Filtered out by attachment filter.`],
+                                }];
+                            }
+                        }
+
+                        // --- 1. Get File Data ---
+                        let document: InputDocument;
                         try {
-                            fs.unlinkSync(tempFilePath);
-                        } catch (unlinkError) {
-                            const errorMsg = `[Limescape Docs Node] Failed to delete temp file ${tempFilePath}: ${unlinkError instanceof Error ? unlinkError.message : String(unlinkError)}`;
-                            console.error(errorMsg);
-                            aggregatedResults.processingIssues.push(`Failed to delete temp file: ${path.basename(tempFilePath)}`);
+                            if (inputSource !== 'binary') {
+                                document = await loadInputDocument(this, i, inputSource, settings, cancelSignal);
+                            } else if (binaryData) {
+                                document = {
+                                    data: await this.helpers.getBinaryDataBuffer(i, propertyName),
+                                    fileName,
+                                    extension: fileType,
+                                    mimeType: binaryData.mimeType,
+                                };
+                            } else {
+                                throw new NodeOperationError(this.getNode(), `Missing binary data in property '${propertyName}' for item ${i}.`, { itemIndex: i });
+                            }
+                        } catch (error) {
+                            return [toErrorOutcome(error, fileName, fileType, [])];
                         }
-                    }
+
+                        return await processUnpacked(document, {});
+                    });
                 }
             }
+
+            // Without continue-on-fail the first failed document stops the node; files not started yet are skipped
+            let stoppingOutcome: DocumentOutcome | undefined;
+            const stoppableTasks = tasks.map((task) => async (): Promise<DocumentOutcome[]> => {
+                if (stoppingOutcome) return [];
+                const taskOutcomes = await task();
+                if (!continueOnFail) stoppingOutcome ??= taskOutcomes.find((outcome) => outcome.status === 'error');
+                return taskOutcomes;
+            });
+            outcomes.push(...(await runWithConcurrency(stoppableTasks, parallelDocuments)).flat());
+            if (stoppingOutcome) {
+                throw new NodeOperationError(
+                    this.getNode(),
+                    `Failed to process ${stoppingOutcome.fileName}: ${stoppingOutcome.error}`,
+                    { itemIndex: stoppingOutcome.itemIndex },
+                );
+            }
         } catch (error) {
-            if (error instanceof NodeOperationError) throw error;
-            throw new NodeOperationError(this.getNode(), `Failed to initialize Limescape Docs processing: ${error instanceof Error ? error.message : String(error)}`, { itemIndex: -1 });
-        }
-
-        // --- Final Aggregated Output ---
-        if (processedFileCount > 0 || (aggregatedResults.processingIssues.length > 0 && processedFileCount === 0)) {
-            const finalJsonOutput: IDataObject = {
-                processedFiles: processedFileCount,
-                filenames: aggregatedResults.filenames.join('; '),
-                filetypes: aggregatedResults.filetypes.join('; '),
-                markdown: aggregatedResults.markdown,
-                totalCompletionTime: aggregatedResults.completionTime,
-                totalInputTokens: aggregatedResults.inputTokens,
-                totalOutputTokens: aggregatedResults.outputTokens,
-                totalPagesProcessed: aggregatedResults.pagesProcessed,
-                aggregatedExtracted: aggregatedResults.extractedData,
-                aggregatedSummaries: aggregatedResults.summaries.join('\n---\n'),
-                processingIssues: aggregatedResults.processingIssues,
+            const nodeError = error instanceof NodeOperationError
+                ? error
+                : new NodeOperationError(this.getNode(), `Failed to initialize Limescape Docs processing: ${error instanceof Error ? error.message : String(error)}`, { itemIndex: -1 });
+            if (!continueOnFail) throw nodeError;
+
+            // Continue on fail: report the failure once, paired with every input item
+            const failedItem: INodeExecutionData = {
+                json: {
+                    message: nodeError.message,
+                    ...describeProviderError(error),
+                    provider: itemSettings[0]?.modelProvider ?? null,
+                    model: itemSettings[0]?.model ?? null,
+                },
+                pairedItem: items.map((_, index) => ({ item: index })),
+            };
+            const mainOutputs: INodeExecutionData[][] = Array.from({ length: mainOutputCount }, () => []);
+            if (useErrorOutput) {
+                return [...mainOutputs, [failedItem]];
+            }
+            // Classify reports it on Unknown; otherwise it goes with the results
+            mainOutputs[routeByCategory ? mainOutputCount - 1 : 0].push({ ...failedItem, error: nodeError });
+            return mainOutputs;
+        }
+
+        // --- Shape Output ---
+        const failedOutcomes = useErrorOutput ? outcomes.filter((outcome) => outcome.status === 'error') : [];
+        const shapedOutcomes = useErrorOutput ? outcomes.filter((outcome) => outcome.status !== 'error') : outcomes;
+        const errorData = failedOutcomes.map(buildErrorOutputItem);
+
+        if (operation === 'splitDocument') {
+            const splitData = buildSplitDocumentOutput(this, shapedOutcomes);
+            return useErrorOutput ? [splitData, errorData] : [splitData];
+        }
+
+        if (operation === 'preflight') {
+            const preflightData = buildPreflightOutput(this, shapedOutcomes);
+            return useErrorOutput ? [preflightData, errorData] : [preflightData];
+        }
+
+        if (operation === 'classify') {
+            const classifiedData = buildClassificationOutput(this, shapedOutcomes, items, categories, routeByCategory);
+            return useErrorOutput ? [...classifiedData, errorData] : classifiedData;
+        }
+
+        // Review items keep the per-file (or per-page) shape even in aggregated mode, one per document to check
+        const needsReview = (outcome: DocumentOutcome) => outcome.status === 'success' && !!outcome.result?.confidence?.needsReview;
+        const acceptedOutcomes = reviewLowConfidence ? shapedOutcomes.filter((outcome) => !needsReview(outcome)) : shapedOutcomes;
+        const reviewData = reviewLowConfidence
+            ? buildSplitOutput(this, shapedOutcomes.filter(needsReview), outputMode === 'perPage')
+            : [];
+
+        const successData = outputMode === 'aggregated'
+            ? buildAggregatedOutput(this, acceptedOutcomes, items.length)
+            : buildSplitOutput(this, acceptedOutcomes, outputMode === 'perPage');
+
+        // Spreadsheets and renditions go on the aggregated item, or on each file's item in One Item per File mode
+        const aggregatedItem = outputMode === 'aggregated'
+            ? successData.find((item) => !item.error && item.json.aggregatedExtracted !== undefined)
+            : undefined;
+
+        if (exportSpreadsheet) {
+            const format = (spreadsheetOptions.format as SpreadsheetFormat | undefined) ?? 'xlsx';
+            const spreadsheet: SpreadsheetSettings = {
+                format,
+                // A CSV file holds a single table
+                arrayHandling: format === 'csv' ? 'rows' : (spreadsheetOptions.arrayHandling as ArrayHandling | undefined) ?? 'sheets',
+                binaryPropertyName: (spreadsheetOptions.binaryPropertyName as string | undefined)?.trim() || 'spreadsheet',
             };
-            successData.push({ json: finalJsonOutput });
-        } else if (items.length > 0 && processedFileCount === 0 && aggregatedResults.processingIssues.length > 0) {
-            successData.push({ json: { message: "All items resulted in errors.", processingIssues: aggregatedResults.processingIssues } });
-        } else if (items.length === 0) {
-            successData.push({ json: { message: "No input items received." } });
+            const getRecords = (outcome: DocumentOutcome) =>
+                getExportRecords(outcome, Boolean(itemSettings[outcome.itemIndex]?.processingOptions.extractPageByPage));
+
+            if (outputMode === 'aggregated') {
+                if (aggregatedItem) {
+                    const records = acceptedOutcomes.flatMap(getRecords);
+                    const fileName = (spreadsheetOptions.fileName as string | undefined)?.trim() || 'extracted-data';
+                    // Columns follow the first item's schema; fields only other items have come after them
+                    await attachSpreadsheet(this, aggregatedItem, records, fileName, { ...spreadsheet, schema: itemSettings[0]?.schema });
+                }
+            } else {
+                // One Item per File emits exactly one item per outcome, in the same order
+                for (let index = 0; index < acceptedOutcomes.length; index++) {
+                    const outcome = acceptedOutcomes[index];
+                    if (outcome.status !== 'success') continue;
+                    await attachSpreadsheet(
+                        this,
+                        successData[index],
+                        getRecords(outcome),
+                        path.parse(outcome.fileName).name,
+                        { ...spreadsheet, schema: itemSettings[outcome.itemIndex]?.schema },
+                    );
+                }
+            }
+        }
+
+        if (renditions.length > 0) {
+            const processedOutcomes = acceptedOutcomes.filter((outcome) => outcome.status === 'success' && outcome.result);
+            if (outputMode === 'aggregated') {
+                if (aggregatedItem && processedOutcomes.length > 0) {
+                    const baseName = processedOutcomes.length === 1
+                        ? path.parse(processedOutcomes[0].fileName).name
+                        : 'combined-documents';
+                    await attachRenditions(this, aggregatedItem, aggregatedItem.json.markdown as string, baseName, renditions);
+                }
+            } else {
+                for (let index = 0; index < acceptedOutcomes.length; index++) {
+                    const outcome = acceptedOutcomes[index];
+                    if (outcome.status !== 'success' || !outcome.result) continue;
+                    await attachRenditions(this, successData[index], outcome.result.markdown, path.parse(outcome.fileName).name, renditions);
+                }
+            }
+        }
+
+        if (includeResolvedSchema) {
+            for (const item of successData) {
+                if (item.error) continue;
+                // The aggregated item has no item index and shows the first item's schema
+                const settings = itemSettings[typeof item.json.itemIndex === 'number' ? item.json.itemIndex : 0];
+                if (settings && settings.schemaSource !== 'json' && settings.schema) {
+                    item.json.resolvedSchema = settings.schema as IDataObject;
+                }
+            }
         }
 
-        return [successData];
+        const mainData = reviewLowConfidence ? [successData, reviewData] : [successData];
+        return useErrorOutput ? [...mainData, errorData] : mainData;
     }
 }
@@ -0,0 +1,141 @@
+import { PDFDict, PDFDocument, PDFName, PDFStream } from 'pdf-lib';
+import { ModelProvider as LimescapeModelProvider } from 'limescape-docs';
+
+/**
+ * Helpers for the Preflight operation: inspects files locally and estimates what processing them
+ * would cost, without calling a model.
+ *
+ * Token counts are rough per-page averages for an A4 page at the default image height; real usage
+ * depends on page size, density and how much text the model writes back.
+ */
+
+export type PdfContentType = 'text' | 'scanned' | 'mixed' | 'empty';
+
+export interface PdfInspection {
+    pageCount: number;
+    encrypted: boolean;
+    contentType: PdfContentType;
+    // Pages with fonts in their resources, i.e. a text layer
+    textPages: number;
+    // Pages with images but no fonts
+    scannedPages: number;
+}
+
+export interface TokenEstimate {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface TokenEstimateInput {
+    provider: LimescapeModelProvider;
+    pages: number;
+    schema?: Record<string, unknown>;
+    extractOnly: boolean;
+    extractPageByPage: boolean;
+    prompt?: string;
+}
+
+// Image tokens for one page image, per provider
+const IMAGE_TOKENS_PER_PAGE: Record<LimescapeModelProvider, number> = {
+    [LimescapeModelProvider.OPENAI]: 1105,
+    [LimescapeModelProvider.AZURE]: 1105,
+    [LimescapeModelProvider.AZURE_AIF]: 1105,
+    [LimescapeModelProvider.GOOGLE]: 1120,
+    [LimescapeModelProvider.VERTEX]: 1120,
+    [LimescapeModelProvider.BEDROCK]: 1600,
+};
+
+// Built-in system prompt sent with every call
+const PROMPT_OVERHEAD_TOKENS = 400;
+// Markdown the model writes for a page of text
+const MARKDOWN_TOKENS_PER_PAGE = 700;
+
+// About four characters per token for English text and JSON
+const estimateTextTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const hasEntries = (dict: PDFDict | undefined): boolean => Boolean(dict && dict.keys().length > 0);
+
+// Looks for fonts and images in a resource dictionary and, one level deep, in its form XObjects
+const inspectResources = (resources: PDFDict | undefined): { fonts: boolean; images: boolean } => {
+    const found = { fonts: hasEntries(resources?.lookupMaybe(PDFName.of('Font'), PDFDict)), images: false };
+    const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    for (const key of xObjects?.keys() ?? []) {
+        const xObject = xObjects?.lookupMaybe(key, PDFStream);
+        const subtype = xObject?.dict.lookupMaybe(PDFName.of('Subtype'), PDFName);
+        if (subtype === PDFName.of('Image')) {
+            found.images = true;
+        } else if (subtype === PDFName.of('Form')) {
+            const formResources = xObject?.dict.lookupMaybe(PDFName.of('Resources'), PDFDict);
+            found.fonts = found.fonts || hasEntries(formResources?.lookupMaybe(PDFName.of('Font'), PDFDict));
+            found.images = found.images || hasEntries(formResources?.lookupMaybe(PDFName.of('XObject'), PDFDict));
+        }
+    }
+    return found;
+};
+
+/**
+ * Reads page count, encryption and whether pages carry a text layer. A page counts as scanned when
+ * it draws images but has no fonts; scans with an OCR text layer therefore count as text.
+ */
+export const inspectPdf = async (pdf: Buffer): Promise<PdfInspection> => {
+    const document = await PDFDocument.load(pdf, { ignoreEncryption: true, updateMetadata: false });
+    let textPages = 0;
+    let scannedPages = 0;
+
+    for (const page of document.getPages()) {
+        const { fonts, images } = inspectResources(page.node.Resources());
+        if (fonts) textPages++;
+        else if (images) scannedPages++;
+    }
+
+    let contentType: PdfContentType = 'empty';
+    if (textPages > 0 && scannedPages > 0) contentType = 'mixed';
+    else if (textPages > 0) contentType = 'text';
+    else if (scannedPages > 0) contentType = 'scanned';
+
+    return {
+        pageCount: document.getPageCount(),
+        encrypted: document.isEncrypted,
+        contentType,
+        textPages,
+        scannedPages,
+    };
+};
+
+/**
+ * Estimates tokens for Process Document on `pages` pages: one OCR call per page, plus the
+ * extraction call(s) when a schema is set. With Extract Only the page images go straight to
+ * extraction.
+ */
+export const estimateTokens = (input: TokenEstimateInput): TokenEstimate => {
+    const { provider, pages, schema, extractOnly, extractPageByPage, prompt } = input;
+    const imageTokens = IMAGE_TOKENS_PER_PAGE[provider] ?? IMAGE_TOKENS_PER_PAGE[LimescapeModelProvider.OPENAI];
+    const promptTokens = PROMPT_OVERHEAD_TOKENS + estimateTextTokens(prompt ?? '');
+    // The filled-in object is roughly as long as the schema describing it
+    const schemaTokens = schema ? estimateTextTokens(JSON.stringify(schema)) : 0;
+    const extractionCalls = extractPageByPage ? pages : 1;
+
+    if (pages === 0) {
+        return { inputTokens: 0, outputTokens: 0 };
+    }
+
+    if (extractOnly) {
+        return {
+            inputTokens: pages * imageTokens + extractionCalls * (promptTokens + schemaTokens),
+            outputTokens: extractionCalls * schemaTokens,
+        };
+    }
+
+    const ocr: TokenEstimate = {
+        inputTokens: pages * (imageTokens + promptTokens),
+        outputTokens: pages * MARKDOWN_TOKENS_PER_PAGE,
+    };
+    if (!schema) {
+        return ocr;
+    }
+
+    return {
+        inputTokens: ocr.inputTokens + ocr.outputTokens + extractionCalls * (PROMPT_OVERHEAD_TOKENS + schemaTokens),
+        outputTokens: ocr.outputTokens + extractionCalls * schemaTokens,
+    };
+};
@@ -0,0 +1,125 @@
+import type { IDataObject } from 'n8n-workflow';
+
+/**
+ * Estimated cost per file from token counts.
+ *
+ * Prices are public list prices in USD per 1 million tokens. Model IDs are matched on the longest
+ * known prefix after removing Bedrock region and vendor prefixes, so dated or versioned IDs
+ * (e.g. `gpt-4o-2024-08-06`, `eu.anthropic.claude-sonnet-4-20250514-v1:0`) still resolve.
+ * Azure deployment names are user-defined and usually need a pricing override.
+ */
+
+export interface ModelPrice {
+    // USD per 1M input tokens
+    input: number;
+    // USD per 1M output tokens
+    output: number;
+}
+
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    // OpenAI
+    'gpt-5.1': { input: 1.25, output: 10 },
+    'gpt-5.1-mini': { input: 0.25, output: 2 },
+    'gpt-5': { input: 1.25, output: 10 },
+    'gpt-5-mini': { input: 0.25, output: 2 },
+    'gpt-5-nano': { input: 0.05, output: 0.4 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'o3': { input: 2, output: 8 },
+    'o4-mini': { input: 1.1, output: 4.4 },
+    // Google
+    'gemini-3-pro': { input: 2, output: 12 },
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+    // Anthropic (Bedrock)
+    'claude-sonnet-4-5': { input: 3, output: 15 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-4.5-sonnet': { input: 3, output: 15 },
+    'claude-4.1-sonnet': { input: 3, output: 15 },
+    'claude-3-7-sonnet': { input: 3, output: 15 },
+    'claude-3-5-sonnet': { input: 3, output: 15 },
+    'claude-opus-4-5': { input: 5, output: 25 },
+    'claude-opus-4': { input: 15, output: 75 },
+    'claude-4-opus': { input: 15, output: 75 },
+    'claude-haiku-4-5': { input: 1, output: 5 },
+    'claude-4-haiku': { input: 1, output: 5 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'claude-3-haiku': { input: 0.25, output: 1.25 },
+    // Amazon (Bedrock)
+    'nova-pro': { input: 0.8, output: 3.2 },
+    'nova-lite': { input: 0.06, output: 0.24 },
+};
+
+// "eu.anthropic.claude-..." / "us.amazon.nova-pro-v1:0" -> "claude-..." / "nova-pro-v1:0"
+const normalizeModelId = (model: string): string =>
+    model
+        .trim()
+        .toLowerCase()
+        .replace(/^(?:us|eu|apac|global)\./, '')
+        .replace(/^(?:anthropic|amazon|meta|mistral)\./, '')
+        .replace(/^models\//, '');
+
+/**
+ * Reads the fixedCollection value (`{ price: [...] }`) into a model → price map.
+ */
+export const getPricingOverrides = (value: unknown): Record<string, ModelPrice> => {
+    const prices = ((value as IDataObject | undefined)?.price ?? []) as IDataObject[];
+    const overrides: Record<string, ModelPrice> = {};
+    for (const price of prices) {
+        const model = String(price.model ?? '').trim();
+        if (!model) continue;
+        overrides[model.toLowerCase()] = {
+            input: Number(price.inputPrice ?? 0),
+            output: Number(price.outputPrice ?? 0),
+        };
+    }
+    return overrides;
+};
+
+/**
+ * Overrides match the model or deployment name exactly (case-insensitive); the default table
+ * matches on the longest prefix.
+ */
+export const resolveModelPrice = (model: string, overrides: Record<string, ModelPrice> = {}): ModelPrice | undefined => {
+    const override = overrides[model.trim().toLowerCase()];
+    if (override) return override;
+
+    const normalized = normalizeModelId(model);
+    let bestMatch: string | undefined;
+    for (const key of Object.keys(DEFAULT_MODEL_PRICES)) {
+        if (normalized.startsWith(key) && (!bestMatch || key.length > bestMatch.length)) {
+            bestMatch = key;
+        }
+    }
+    return bestMatch ? DEFAULT_MODEL_PRICES[bestMatch] : undefined;
+};
+
+// Micro-dollar precision keeps sums stable without showing float noise
+export const roundCost = (value: number): number => Math.round(value * 1_000_000) / 1_000_000;
+
+export const estimateCost = (price: ModelPrice, inputTokens: number, outputTokens: number): number =>
+    roundCost((inputTokens * price.input + outputTokens * price.output) / 1_000_000);
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+/**
+ * Prices a file whose extraction step ran on another model than OCR: the OCR share of the tokens
+ * at the OCR model's price and the rest at the extraction model's.
+ */
+export const estimateSplitCost = (ocrPrice: ModelPrice, extractionPrice: ModelPrice, total: TokenUsage, ocr: TokenUsage): number => {
+    const ocrInput = Math.min(ocr.inputTokens, total.inputTokens);
+    const ocrOutput = Math.min(ocr.outputTokens, total.outputTokens);
+    return roundCost(
+        estimateCost(ocrPrice, ocrInput, ocrOutput)
+        + estimateCost(extractionPrice, total.inputTokens - ocrInput, total.outputTokens - ocrOutput),
+    );
+};
@@ -0,0 +1,247 @@
+/**
+ * Field provenance for the Include Field Provenance option: the page, the verbatim text and, when
+ * the model can tell, the region each extracted value was read from.
+ *
+ * The schema sent to the model is wrapped so it returns the data together with a list of sources.
+ * Leaves the model cites no source for are looked up in the OCR markdown afterwards, which finds
+ * the page and the line but not the region. That lookup only reports a line it can single out;
+ * anything else stays `notFound`, so a coincidental match is never presented as evidence.
+ */
+
+export interface ProvenanceRegion {
+    // Fractions of the page width and height (0-1), measured from the top-left corner
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface FieldProvenance {
+    page: number | null;
+    sourceText: string | null;
+    region: ProvenanceRegion | null;
+    // How the source was found: cited by the model, matched in the OCR text, or not at all
+    method: 'model' | 'textMatch' | 'notFound';
+}
+
+// Keyed by leaf path, e.g. "line_items[0].amount"
+export type ProvenanceMap = Record<string, FieldProvenance>;
+
+export interface ProvenancePage {
+    pageNumber: number;
+    markdown: string;
+}
+
+// Longer lines are cut when a value is matched in the OCR text
+const MAX_MATCHED_LINE_LENGTH = 200;
+
+export const buildProvenanceSchema = (schema: Record<string, unknown>): Record<string, unknown> => ({
+    type: 'object',
+    properties: {
+        data: schema,
+        provenance: {
+            type: 'array',
+            description: 'Where each extracted value was found. One entry per leaf value in data.',
+            items: {
+                type: 'object',
+                properties: {
+                    field: {
+                        type: 'string',
+                        description: 'Path of the value in data, with array indexes in brackets, e.g. "line_items[0].amount".',
+                    },
+                    page: {
+                        type: 'integer',
+                        description: 'Page number (starting at 1) the value was read from.',
+                    },
+                    source_text: {
+                        type: 'string',
+                        description: 'The text the value was read from, copied exactly as printed, including its label when there is one.',
+                    },
+                    region: {
+                        type: 'object',
+                        description: 'Approximate bounding box of the source text as fractions (0-1) of the page size, from the top-left corner. Leave out when unsure.',
+                        properties: {
+                            x: { type: 'number' },
+                            y: { type: 'number' },
+                            width: { type: 'number' },
+                            height: { type: 'number' },
+                        },
+                    },
+                },
+                required: ['field', 'source_text'],
+            },
+        },
+    },
+    required: ['data', 'provenance'],
+});
+
+export const buildProvenancePrompt = (basePrompt?: string): string => [
+    basePrompt,
+    'Put the extracted values in "data". For every value in "data", add an entry to "provenance" with its path, the page it appears on and the text it was read from, copied verbatim.',
+    'Only cite text that is actually on the page; leave a value out of "provenance" rather than inventing a source.',
+].filter((part) => !!part).join('\n');
+
+// "$.items.0.amount", "/items/0/amount" and "items[0].amount" all become "items[0].amount"
+export const normalizeFieldPath = (fieldPath: string): string =>
+    fieldPath
+        .trim()
+        .replace(/^\$/, '')
+        .replace(/\[(\d+)\]/g, '.$1')
+        .split(/[./]/)
+        .filter((segment) => segment.length > 0)
+        .map((segment) => (/^\d+$/.test(segment) ? `[${segment}]` : `.${segment}`))
+        .join('')
+        .replace(/^\./, '');
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toRegion = (value: unknown): ProvenanceRegion | null => {
+    if (!isRecord(value)) return null;
+    const { x, y, width, height } = value;
+    const numbers = [x, y, width, height];
+    if (!numbers.every((n) => typeof n === 'number' && Number.isFinite(n) && n >= 0 && n <= 1)) return null;
+    return { x: x as number, y: y as number, width: width as number, height: height as number };
+};
+
+/**
+ * Splits an answer to the wrapped schema into the extracted data and the sources the model cited.
+ * `pageNumber` is the page of a page-by-page extraction; it overrides whatever page the model gave.
+ * An answer without the wrapper is taken as the data itself, with no sources.
+ */
+export const readProvenance = (extracted: unknown, pageNumber?: number): { data: unknown; provenance: ProvenanceMap } => {
+    if (!isRecord(extracted) || !('data' in extracted)) {
+        return { data: extracted, provenance: {} };
+    }
+    const provenance: ProvenanceMap = {};
+    const sources = Array.isArray(extracted.provenance) ? extracted.provenance : [];
+    for (const source of sources) {
+        if (!isRecord(source) || typeof source.field !== 'string' || typeof source.source_text !== 'string') continue;
+        const field = normalizeFieldPath(source.field);
+        const sourceText = source.source_text.trim();
+        if (!field || !sourceText || provenance[field]) continue;
+        const page = Number(source.page);
+        provenance[field] = {
+            page: pageNumber ?? (Number.isInteger(page) && page > 0 ? page : null),
+            sourceText,
+            region: toRegion(source.region),
+            method: 'model',
+        };
+    }
+    return { data: extracted.data ?? null, provenance };
+};
+
+// Values that are null or empty strings have nothing to trace and are left out
+const collectLeaves = (value: unknown, fieldPath: string, leaves: Map<string, unknown>): void => {
+    if (Array.isArray(value)) {
+        value.forEach((item, index) => collectLeaves(item, `${fieldPath}[${index}]`, leaves));
+    } else if (isRecord(value)) {
+        for (const [key, item] of Object.entries(value)) {
+            collectLeaves(item, fieldPath ? `${fieldPath}.${key}` : key, leaves);
+        }
+    } else if (value !== null && value !== undefined && value !== '' && fieldPath) {
+        leaves.set(fieldPath, value);
+    }
+};
+
+const normalizeText = (text: string): string => text.toLowerCase().replace(/[*_`#|]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Whole numbers only: not part of a longer number, a word or a date such as 2024-01-05
+const NUMBER_TOKEN = /(?<![\w./-])-?\d(?:[\d.,']*\d)?(?![\w/-])/g;
+
+// The values a number token can stand for: "1.234,50" and "1,234.50" are both 1234.5
+const readNumbers = (token: string): number[] => {
+    const plain = token.replace(/'/g, '');
+    return [plain.replace(/,/g, ''), plain.replace(/\./g, '').replace(',', '.')]
+        .filter((text) => /^-?\d+(?:\.\d+)?$/.test(text))
+        .map(Number);
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const lineContainsValue = (line: string, value: unknown): boolean => {
+    if (typeof value === 'number') {
+        return (line.match(NUMBER_TOKEN) ?? []).some((token) => readNumbers(token).some((number) => Math.abs(number - value) < 1e-9));
+    }
+    const needle = normalizeText(String(value));
+    // Whole words only, so "Jan" does not match "January"
+    return needle.length > 1 && new RegExp(`(?:^|[^\\p{L}\\p{N}])${escapeRegExp(needle)}(?:$|[^\\p{L}\\p{N}])`, 'u').test(normalizeText(line));
+};
+
+interface MatchedLine {
+    page: number;
+    line: string;
+}
+
+const findLines = (pages: ProvenancePage[], matches: (line: string) => boolean): MatchedLine[] =>
+    pages.flatMap((page) => page.markdown
+        .split('\n')
+        .filter(matches)
+        .map((line) => ({ page: page.pageNumber, line: line.trim().substring(0, MAX_MATCHED_LINE_LENGTH) })));
+
+// "supplier.vatNumber" and "supplier.vat_number" -> "vat number"; array indexes are skipped
+const getFieldLabel = (fieldPath: string): string => {
+    const key = fieldPath.replace(/\[\d+\]/g, '').split('.').pop() ?? '';
+    return normalizeText(key.replace(/([a-z])([A-Z])/g, '$1 $2'));
+};
+
+/**
+ * The one line the value appears on. When several lines hold it, the one that also names the
+ * field wins; with no single such line the match is ambiguous and nothing is returned.
+ */
+const findValueLine = (pages: ProvenancePage[], fieldPath: string, value: unknown): MatchedLine | undefined => {
+    const lines = findLines(pages, (line) => lineContainsValue(line, value));
+    if (lines.length <= 1) return lines[0];
+    const label = getFieldLabel(fieldPath);
+    const labelled = label.length > 1 ? lines.filter((match) => normalizeText(match.line).includes(label)) : [];
+    return labelled.length === 1 ? labelled[0] : undefined;
+};
+
+const LAST_SEGMENT = /(\.[^.[\]]+|\[\d+\])$/;
+
+// The entry for the field itself, or for the closest object or array around it
+const findCitedEntry = (provenance: ProvenanceMap, fieldPath: string): FieldProvenance | undefined => {
+    let candidate = fieldPath;
+    while (candidate) {
+        if (provenance[candidate]) return provenance[candidate];
+        const parent = candidate.replace(LAST_SEGMENT, '');
+        if (parent === candidate) break;
+        candidate = parent;
+    }
+    return undefined;
+};
+
+/**
+ * Returns an entry for every leaf of `data`, in data order. Cited entries without a page get one
+ * from the page their source text appears on; uncited leaves are matched against the OCR text
+ * (see findValueLine). Booleans are never matched, as their text rarely appears on the page.
+ */
+export const completeProvenance = (
+    data: unknown,
+    provenance: ProvenanceMap,
+    pages: ProvenancePage[],
+    pageNumber?: number,
+): ProvenanceMap => {
+    const leaves = new Map<string, unknown>();
+    collectLeaves(data, '', leaves);
+
+    const completed: ProvenanceMap = {};
+    for (const [fieldPath, value] of leaves) {
+        const cited = findCitedEntry(provenance, fieldPath);
+        if (cited) {
+            const sourceText = normalizeText(cited.sourceText ?? '');
+            const located = cited.page === null
+                ? findLines(pages, (line) => normalizeText(line).includes(sourceText))
+                : [];
+            // A source text found on several pages gives no page
+            const pageNumbers = new Set(located.map((match) => match.page));
+            completed[fieldPath] = { ...cited, page: cited.page ?? (pageNumbers.size === 1 ? located[0].page : null) };
+            continue;
+        }
+        const match = typeof value !== 'boolean' ? findValueLine(pages, fieldPath, value) : undefined;
+        completed[fieldPath] = match
+            ? { page: match.page, sourceText: match.line, region: null, method: 'textMatch' }
+            : { page: pageNumber ?? null, sourceText: null, region: null, method: 'notFound' };
+    }
+    return completed;
+};
@@ -0,0 +1,253 @@
+import {
+    AlignmentType,
+    Document,
+    HeadingLevel,
+    LevelFormat,
+    Packer,
+    Paragraph,
+    ParagraphChild,
+    Table,
+    TableCell,
+    TableRow,
+    TextRun,
+    WidthType,
+} from 'docx';
+import { Marked, marked, Token, Tokens } from 'marked';
+
+/**
+ * Renders the OCR markdown as files for the Attach Renditions option: the markdown itself, a
+ * standalone HTML page and a Word document. Tables are kept in both HTML and DOCX.
+ */
+
+export type RenditionFormat = 'markdown' | 'html' | 'docx';
+
+export const RENDITION_FILES: Record<RenditionFormat, { extension: string; mimeType: string }> = {
+    markdown: { extension: 'md', mimeType: 'text/markdown' },
+    html: { extension: 'html', mimeType: 'text/html' },
+    docx: { extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+};
+
+const HTML_STYLE = [
+    'body { font-family: sans-serif; line-height: 1.5; max-width: 960px; margin: 2em auto; padding: 0 1em; }',
+    'table { border-collapse: collapse; margin: 1em 0; }',
+    'th, td { border: 1px solid #999; padding: 4px 8px; text-align: left; vertical-align: top; }',
+    'th { background: #f0f0f0; }',
+    'pre { background: #f6f6f6; padding: 1em; overflow-x: auto; }',
+].join('\n');
+
+const ORDERED_LIST_REFERENCE = 'ordered-list';
+const HEADING_LEVELS = [
+    HeadingLevel.HEADING_1,
+    HeadingLevel.HEADING_2,
+    HeadingLevel.HEADING_3,
+    HeadingLevel.HEADING_4,
+    HeadingLevel.HEADING_5,
+    HeadingLevel.HEADING_6,
+];
+const CODE_FONT = 'Courier New';
+
+const escapeHtml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Script, data and similar URLs can run code when a link or image is opened
+const isSafeUrl = (url: string): boolean => !/^\s*(?:javascript|vbscript|data|file):/i.test(url);
+
+// The markdown is model output from untrusted documents, so raw HTML in it is shown as text
+// (line breaks excepted) and unsafe link and image URLs are dropped
+const htmlRenderer = new Marked({
+    gfm: true,
+    async: false,
+    renderer: {
+        html({ text }: Tokens.HTML | Tokens.Tag): string {
+            return escapeHtml(text).replace(/&lt;br\s*\/?&gt;/gi, '<br>');
+        },
+        link({ href, tokens }: Tokens.Link): string | false {
+            return isSafeUrl(href) ? false : this.parser.parseInline(tokens);
+        },
+        image({ href, text }: Tokens.Image): string | false {
+            return isSafeUrl(href) ? false : escapeHtml(text);
+        },
+    },
+});
+
+export const renderHtml = (markdown: string, title: string): string => [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>\n${HTML_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    htmlRenderer.parse(markdown) as string,
+    '</body>',
+    '</html>',
+].join('\n');
+
+interface RunFormat {
+    bold?: boolean;
+    italics?: boolean;
+    strike?: boolean;
+    code?: boolean;
+}
+
+// Raw HTML in the markdown (e.g. <br> in table cells) is reduced to its text
+const stripHtml = (html: string): string =>
+    html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>');
+
+const textRuns = (text: string, format: RunFormat): TextRun[] =>
+    text.split('\n').map((line, index) => new TextRun({
+        text: line,
+        break: index > 0 ? 1 : undefined,
+        bold: format.bold,
+        italics: format.italics,
+        strike: format.strike,
+        font: format.code ? CODE_FONT : undefined,
+    }));
+
+const renderInline = (tokens: Token[] | undefined, format: RunFormat = {}): ParagraphChild[] => {
+    const runs: ParagraphChild[] = [];
+    for (const token of tokens ?? []) {
+        switch (token.type) {
+            case 'strong':
+                runs.push(...renderInline(token.tokens, { ...format, bold: true }));
+                break;
+            case 'em':
+                runs.push(...renderInline(token.tokens, { ...format, italics: true }));
+                break;
+            case 'del':
+                runs.push(...renderInline(token.tokens, { ...format, strike: true }));
+                break;
+            case 'codespan':
+                runs.push(...textRuns(token.text, { ...format, code: true }));
+                break;
+            case 'br':
+                runs.push(new TextRun({ break: 1 }));
+                break;
+            case 'html':
+                runs.push(...textRuns(stripHtml(token.text), format));
+                break;
+            case 'image':
+                runs.push(...textRuns(token.text ? `[${token.text}]` : '', format));
+                break;
+            case 'link':
+            case 'text':
+                runs.push(...(token.tokens?.length ? renderInline(token.tokens, format) : textRuns(token.text, format)));
+                break;
+            default:
+                runs.push(...textRuns(stripHtml((token as Tokens.Generic).text ?? (token as Tokens.Generic).raw ?? ''), format));
+        }
+    }
+    return runs;
+};
+
+const renderTable = (token: Tokens.Table): Table => {
+    const toCell = (cell: Tokens.TableCell, header: boolean): TableCell => new TableCell({
+        children: [new Paragraph({
+            children: renderInline(cell.tokens, { bold: header }),
+            alignment: cell.align === 'right' ? AlignmentType.RIGHT : cell.align === 'center' ? AlignmentType.CENTER : undefined,
+        })],
+    });
+    return new Table({
+        width: { size: 100, type: WidthType.PERCENTAGE },
+        rows: [
+            new TableRow({ tableHeader: true, children: token.header.map((cell) => toCell(cell, true)) }),
+            ...token.rows.map((row) => new TableRow({ children: row.map((cell) => toCell(cell, false)) })),
+        ],
+    });
+};
+
+// Every ordered list gets its own numbering instance, so each one starts at 1
+interface BlockContext {
+    listInstances: number;
+}
+
+const renderBlocks = (tokens: Token[], context: BlockContext, listLevel = 0): Array<Paragraph | Table> => {
+    const blocks: Array<Paragraph | Table> = [];
+    for (const token of tokens) {
+        switch (token.type) {
+            case 'space':
+                break;
+            case 'heading':
+                blocks.push(new Paragraph({ heading: HEADING_LEVELS[Math.min(token.depth, 6) - 1], children: renderInline(token.tokens) }));
+                break;
+            case 'paragraph':
+                blocks.push(new Paragraph({ children: renderInline(token.tokens) }));
+                break;
+            case 'table':
+                blocks.push(renderTable(token as Tokens.Table));
+                break;
+            case 'code':
+                blocks.push(new Paragraph({ children: textRuns(token.text, { code: true }) }));
+                break;
+            case 'blockquote':
+                blocks.push(...renderBlocks(token.tokens ?? [], context, listLevel));
+                break;
+            case 'hr':
+                blocks.push(new Paragraph({ thematicBreak: true }));
+                break;
+            case 'list': {
+                const list = token as Tokens.List;
+                const instance = list.ordered ? ++context.listInstances : 0;
+                for (const item of list.items) {
+                    const [first, ...rest] = item.tokens;
+                    const inline = first && (first.type === 'text' || first.type === 'paragraph')
+                        ? renderInline((first as Tokens.Text).tokens ?? [first])
+                        : [];
+                    blocks.push(new Paragraph({
+                        children: inline,
+                        ...(list.ordered
+                            ? { numbering: { reference: ORDERED_LIST_REFERENCE, level: listLevel, instance } }
+                            : { bullet: { level: listLevel } }),
+                    }));
+                    const nested = inline.length > 0 ? rest : item.tokens;
+                    blocks.push(...renderBlocks(nested, context, Math.min(listLevel + 1, 8)));
+                }
+                break;
+            }
+            case 'html': {
+                const text = stripHtml(token.text).trim();
+                if (text) blocks.push(new Paragraph({ children: textRuns(text, {}) }));
+                break;
+            }
+            default: {
+                const text = (token as Tokens.Generic).text;
+                if (typeof text === 'string' && text.trim()) {
+                    blocks.push(new Paragraph({ children: textRuns(text, {}) }));
+                }
+            }
+        }
+    }
+    return blocks;
+};
+
+export const renderDocx = async (markdown: string, title: string): Promise<Buffer> => {
+    const children = renderBlocks(marked.lexer(markdown, { gfm: true }), { listInstances: 0 });
+    const document = new Document({
+        title,
+        numbering: {
+            config: [{
+                reference: ORDERED_LIST_REFERENCE,
+                levels: Array.from({ length: 9 }, (_, level) => ({
+                    level,
+                    format: LevelFormat.DECIMAL,
+                    text: `%${level + 1}.`,
+                    alignment: AlignmentType.START,
+                    style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+                })),
+            }],
+        },
+        // Word needs at least one paragraph in a section
+        sections: [{ children: children.length > 0 ? children : [new Paragraph('')] }],
+    });
+    return await Packer.toBuffer(document);
+};
+
+/**
+ * Returns the file contents for one rendition of `markdown`.
+ */
+export const renderRendition = async (format: RenditionFormat, markdown: string, title: string): Promise<Buffer> => {
+    if (format === 'html') return Buffer.from(renderHtml(markdown, title), 'utf8');
+    if (format === 'docx') return await renderDocx(markdown, title);
+    return Buffer.from(markdown, 'utf8');
+};
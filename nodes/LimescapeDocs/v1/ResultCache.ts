@@ -0,0 +1,93 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { createHash } from 'node:crypto';
+
+/**
+ * File-based result cache keyed by a hash of the file bytes and the settings that affect the
+ * result. One JSON file per entry; expired entries are removed when they are read.
+ */
+
+const CACHE_FILE_SUFFIX = '.ldcache.json';
+// Bump when the shape of cached values changes, so old entries are no longer hit
+const CACHE_FORMAT_VERSION = '1';
+
+export const DEFAULT_CACHE_DIRECTORY = path.join(os.tmpdir(), 'n8n-limescape-docs-cache');
+
+interface CacheEntry<T> {
+    createdAt: number;
+    value: T;
+}
+
+// JSON with sorted object keys, so equal settings always hash the same
+const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map((entry) => stableStringify(entry)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        return `{${Object.keys(record)
+            .filter((key) => record[key] !== undefined)
+            .sort()
+            .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+};
+
+export const computeCacheKey = (file: Buffer, settings: unknown): string =>
+    createHash('sha256')
+        .update(CACHE_FORMAT_VERSION)
+        .update(createHash('sha256').update(file).digest('hex'))
+        .update(stableStringify(settings))
+        .digest('hex');
+
+const getEntryPath = (directory: string, key: string): string =>
+    path.join(directory, `${key}${CACHE_FILE_SUFFIX}`);
+
+/**
+ * Returns the cached value, or undefined when there is no entry, it is older than `ttlSeconds`
+ * or it cannot be read.
+ */
+export const readCacheEntry = <T>(directory: string, key: string, ttlSeconds: number): T | undefined => {
+    const entryPath = getEntryPath(directory, key);
+    if (!fs.existsSync(entryPath)) return undefined;
+
+    try {
+        const entry = JSON.parse(fs.readFileSync(entryPath, 'utf8')) as CacheEntry<T>;
+        if (ttlSeconds > 0 && Date.now() - entry.createdAt > ttlSeconds * 1000) {
+            fs.unlinkSync(entryPath);
+            return undefined;
+        }
+        return entry.value;
+    } catch {
+        // A corrupt or concurrently removed entry is a cache miss
+        return undefined;
+    }
+};
+
+export const writeCacheEntry = <T>(directory: string, key: string, value: T): void => {
+    fs.mkdirSync(directory, { recursive: true });
+    const entryPath = getEntryPath(directory, key);
+    // Write to a temporary file first so parallel executions never read a partial entry
+    const tempPath = `${entryPath}.${process.pid}.${Date.now()}.tmp`;
+    const entry: CacheEntry<T> = { createdAt: Date.now(), value };
+    fs.writeFileSync(tempPath, JSON.stringify(entry));
+    fs.renameSync(tempPath, entryPath);
+};
+
+/**
+ * Deletes every cache entry in `directory` and returns how many were removed. Other files in the
+ * directory are left alone.
+ */
+export const clearCache = (directory: string): number => {
+    if (!fs.existsSync(directory)) return 0;
+
+    let removed = 0;
+    for (const fileName of fs.readdirSync(directory)) {
+        if (!fileName.endsWith(CACHE_FILE_SUFFIX)) continue;
+        fs.unlinkSync(path.join(directory, fileName));
+        removed++;
+    }
+    return removed;
+};
@@ -0,0 +1,172 @@
+import type { IDataObject } from 'n8n-workflow';
+
+/**
+ * Builds a JSON Schema from the node's "Schema Fields" builder.
+ *
+ * Fields are a flat list; nesting is expressed with `parentPath`, the dot-separated names of the
+ * enclosing Object or Array of Objects fields (e.g. `customer.address` or `line_items`).
+ */
+
+export type SchemaFieldType =
+    | 'string'
+    | 'number'
+    | 'integer'
+    | 'boolean'
+    | 'date'
+    | 'object'
+    | 'arrayOfStrings'
+    | 'arrayOfNumbers'
+    | 'arrayOfObjects';
+
+export interface SchemaField {
+    name: string;
+    type: SchemaFieldType;
+    description?: string;
+    required?: boolean;
+    enumValues?: string;
+    parentPath?: string;
+}
+
+type JsonSchema = Record<string, unknown>;
+
+const createObjectSchema = (): JsonSchema => ({ type: 'object', properties: {} });
+
+const parseEnumValues = (raw: string | undefined, type: SchemaFieldType): Array<string | number> | undefined => {
+    const values = (raw ?? '').split(',').map((v) => v.trim()).filter((v) => v.length > 0);
+    if (values.length === 0) return undefined;
+    if (type === 'number' || type === 'integer' || type === 'arrayOfNumbers') {
+        return values.map((v) => Number(v)).filter((v) => !Number.isNaN(v));
+    }
+    return values;
+};
+
+const createFieldSchema = (field: SchemaField): JsonSchema => {
+    const schema: JsonSchema = {};
+    const enumValues = parseEnumValues(field.enumValues, field.type);
+
+    switch (field.type) {
+        case 'date':
+            schema.type = 'string';
+            schema.format = 'date';
+            break;
+        case 'object':
+            Object.assign(schema, createObjectSchema());
+            break;
+        case 'arrayOfStrings':
+            schema.type = 'array';
+            schema.items = enumValues ? { type: 'string', enum: enumValues } : { type: 'string' };
+            break;
+        case 'arrayOfNumbers':
+            schema.type = 'array';
+            schema.items = enumValues ? { type: 'number', enum: enumValues } : { type: 'number' };
+            break;
+        case 'arrayOfObjects':
+            schema.type = 'array';
+            schema.items = createObjectSchema();
+            break;
+        default:
+            schema.type = field.type;
+    }
+
+    if (field.description) {
+        schema.description = field.description;
+    }
+    if (enumValues && !field.type.startsWith('array') && field.type !== 'object') {
+        schema.enum = enumValues;
+    }
+    return schema;
+};
+
+// The object schema that children of a field are added to
+const getChildContainer = (field: SchemaField, schema: JsonSchema): JsonSchema | undefined => {
+    if (field.type === 'object') return schema;
+    if (field.type === 'arrayOfObjects') return schema.items as JsonSchema;
+    return undefined;
+};
+
+const normalizePath = (value: string | undefined): string =>
+    (value ?? '').split('.').map((part) => part.trim()).filter((part) => part.length > 0).join('.');
+
+// Walks an existing schema to the object that children of `path` are added to
+const findContainerInSchema = (schema: JsonSchema, path: string): JsonSchema | undefined => {
+    let current: JsonSchema | undefined = schema;
+    for (const part of path.split('.')) {
+        const properties = current?.properties as Record<string, JsonSchema> | undefined;
+        current = properties?.[part];
+        if (current?.type === 'array') {
+            current = current.items as JsonSchema | undefined;
+        }
+    }
+    return current?.type === 'object' ? current : undefined;
+};
+
+/**
+ * Reads the fixedCollection value (`{ field: [...] }`) into a list of fields.
+ */
+export const getSchemaFields = (value: unknown): SchemaField[] => {
+    const fields = ((value as IDataObject | undefined)?.field ?? []) as IDataObject[];
+    return fields.map((field) => ({
+        name: String(field.name ?? '').trim(),
+        type: (field.type as SchemaFieldType) || 'string',
+        description: (field.description as string | undefined) || undefined,
+        required: Boolean(field.required),
+        enumValues: (field.enumValues as string | undefined) || undefined,
+        parentPath: normalizePath(field.parentPath as string | undefined),
+    }));
+};
+
+/**
+ * Generates the JSON Schema for the builder fields, in field order.
+ * When `baseSchema` is given the fields are added to it (it is modified in place) and Parent Field
+ * may also point at its Object or Array of Objects properties.
+ * Throws an Error describing the first invalid field.
+ */
+export const buildSchemaFromFields = (fields: SchemaField[], baseSchema?: JsonSchema): JsonSchema | undefined => {
+    if (fields.length === 0) return baseSchema;
+
+    const root = baseSchema ?? createObjectSchema();
+    root.properties = root.properties ?? {};
+    const nodes = new Map<string, { field: SchemaField; schema: JsonSchema }>();
+
+    for (const field of fields) {
+        if (!field.name) {
+            throw new Error('Every schema field needs a name.');
+        }
+        if (field.name.includes('.')) {
+            throw new Error(`Field name '${field.name}' must not contain dots. Use Parent Field for nesting.`);
+        }
+        const fullPath = field.parentPath ? `${field.parentPath}.${field.name}` : field.name;
+        if (nodes.has(fullPath)) {
+            throw new Error(`Schema field '${fullPath}' is defined more than once.`);
+        }
+        nodes.set(fullPath, { field, schema: createFieldSchema(field) });
+    }
+
+    for (const [fullPath, { field, schema }] of nodes) {
+        let container = root;
+        if (field.parentPath) {
+            const parent = nodes.get(field.parentPath);
+            const childContainer = parent
+                ? getChildContainer(parent.field, parent.schema)
+                : baseSchema && findContainerInSchema(root, field.parentPath);
+            if (!parent && !childContainer) {
+                throw new Error(baseSchema
+                    ? `Parent field '${field.parentPath}' of '${fullPath}' does not exist or is not an Object or Array of Objects field.`
+                    : `Parent field '${field.parentPath}' of '${fullPath}' does not exist.`);
+            }
+            if (!childContainer) {
+                throw new Error(`Parent field '${field.parentPath}' of '${fullPath}' must be an Object or Array of Objects field.`);
+            }
+            container = childContainer;
+        }
+
+        container.properties = container.properties ?? {};
+        (container.properties as Record<string, JsonSchema>)[field.name] = schema;
+        const required = (container.required as string[] | undefined) ?? [];
+        if (field.required && !required.includes(field.name)) {
+            container.required = [...required, field.name];
+        }
+    }
+
+    return root;
+};
@@ -0,0 +1,342 @@
+/**
+ * Maintained extraction schemas and prompts for common business documents.
+ *
+ * Property order matters: it is kept in the generated schema, the Extract Per Page Keys list
+ * and spreadsheet exports.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+export type DocumentPreset =
+    | 'invoice'
+    | 'receipt'
+    | 'purchaseOrder'
+    | 'bankStatement'
+    | 'idCard'
+    | 'deliveryNote'
+    | 'pageZones';
+
+export interface DocumentPresetDefinition {
+    name: string;
+    description: string;
+    schema: JsonSchema;
+    extractionPrompt: string;
+}
+
+const str = (description: string): JsonSchema => ({ type: 'string', description });
+const num = (description: string): JsonSchema => ({ type: 'number', description });
+const date = (description: string): JsonSchema => ({ type: 'string', format: 'date', description });
+
+const address = (description: string): JsonSchema => ({
+    type: 'object',
+    description,
+    properties: {
+        street: str('Street name and house number'),
+        postal_code: str('Postal or ZIP code'),
+        city: str('City'),
+        country: str('Country, as written on the document'),
+    },
+});
+
+const party = (description: string): JsonSchema => ({
+    type: 'object',
+    description,
+    properties: {
+        name: str('Company or person name'),
+        address: address('Postal address'),
+        vat_number: str('VAT / tax identification number'),
+        chamber_of_commerce_number: str('Chamber of commerce / company registration number'),
+        email: str('Email address'),
+        phone: str('Phone number'),
+    },
+    required: ['name'],
+});
+
+const lineItems = (description: string, extra: Record<string, JsonSchema> = {}): JsonSchema => ({
+    type: 'array',
+    description,
+    items: {
+        type: 'object',
+        properties: {
+            line_number: { type: 'integer', description: 'Position of the line on the document' },
+            article_number: str('Article, SKU or product code'),
+            description: str('Description of the goods or service'),
+            quantity: num('Quantity'),
+            unit: str('Unit of measure (e.g. pcs, kg, hours)'),
+            ...extra,
+        },
+        required: ['description'],
+    },
+});
+
+export const PAGE_ZONES_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        pages: {
+            type: 'array',
+            description: 'List of pages extracted from the document.',
+            items: {
+                type: 'object',
+                properties: {
+                    page_number: { type: 'integer', description: 'The sequential number of the page.' },
+                    zones: {
+                        type: 'array',
+                        description: 'List of distinct spatial zones (text blocks, tables, or images) found on this page.',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                type: {
+                                    type: 'string',
+                                    enum: ['text_block', 'table', 'image', 'handwriting', 'header', 'footer'],
+                                    description: 'The classification of the content in this zone.',
+                                },
+                                content_verbatim: {
+                                    type: 'string',
+                                    description: 'For text/tables: The exact text found in this zone, preserving newlines and spacing. For images: null.',
+                                },
+                                image_description: {
+                                    type: 'string',
+                                    description: 'For images: A detailed visual description of the image content. For text: null.',
+                                },
+                                position: {
+                                    type: 'string',
+                                    enum: ['top_left', 'top_center', 'top_right', 'middle_left', 'center', 'middle_right', 'bottom_left', 'bottom_center', 'bottom_right'],
+                                    description: 'The approximate spatial location of this zone on the page.',
+                                },
+                                confidence_score: {
+                                    type: 'number',
+                                    description: 'A score between 0 and 1 indicating how confident the model is in the extraction.',
+                                },
+                            },
+                            required: ['type', 'content_verbatim', 'position'],
+                        },
+                    },
+                },
+                required: ['page_number', 'zones'],
+            },
+        },
+        document_summary: {
+            type: 'string',
+            description: 'A brief 2-3 sentence summary of what this entire document represents.',
+        },
+    },
+    required: ['pages', 'document_summary'],
+};
+
+const COMMON_PROMPT_RULES = [
+    'Copy identifiers, names and numbers exactly as printed.',
+    'Return amounts as plain numbers without currency symbols or thousands separators.',
+    'Return dates as YYYY-MM-DD.',
+    'Leave a field out when it is not on the document; never guess values.',
+].join(' ');
+
+export const DOCUMENT_PRESETS: Record<DocumentPreset, DocumentPresetDefinition> = {
+    invoice: {
+        name: 'Invoice',
+        description: 'Supplier, customer, invoice numbers, dates, totals, VAT breakdown and line items',
+        extractionPrompt: `Extract the invoice data. ${COMMON_PROMPT_RULES} Use the totals printed on the invoice; do not recalculate them.`,
+        schema: {
+            type: 'object',
+            properties: {
+                invoice_number: str('Invoice number'),
+                invoice_date: date('Invoice date'),
+                due_date: date('Payment due date'),
+                purchase_order_number: str('Purchase order number referenced on the invoice'),
+                supplier: party('Party that issued the invoice'),
+                customer: party('Party that is invoiced'),
+                currency: str('ISO 4217 currency code, e.g. EUR'),
+                line_items: lineItems('Invoice lines', {
+                    unit_price: num('Price per unit excluding VAT'),
+                    vat_rate: num('VAT percentage for this line, e.g. 21'),
+                    line_total: num('Line total excluding VAT'),
+                }),
+                vat_breakdown: {
+                    type: 'array',
+                    description: 'VAT amounts per rate',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            vat_rate: num('VAT percentage'),
+                            taxable_amount: num('Amount the rate applies to'),
+                            vat_amount: num('VAT amount'),
+                        },
+                    },
+                },
+                subtotal: num('Total excluding VAT'),
+                total_vat: num('Total VAT amount'),
+                total_amount: num('Total including VAT'),
+                iban: str('IBAN for payment'),
+                payment_reference: str('Payment reference or structured communication'),
+            },
+            required: ['invoice_number', 'invoice_date', 'supplier', 'total_amount'],
+        },
+    },
+    receipt: {
+        name: 'Receipt',
+        description: 'Merchant, date and time, items, totals and payment method',
+        extractionPrompt: `Extract the receipt data. ${COMMON_PROMPT_RULES} Return the time as HH:MM.`,
+        schema: {
+            type: 'object',
+            properties: {
+                merchant_name: str('Name of the shop or merchant'),
+                merchant_address: address('Address of the shop'),
+                merchant_vat_number: str('VAT number of the merchant'),
+                receipt_number: str('Receipt or transaction number'),
+                date: date('Date of purchase'),
+                time: str('Time of purchase (HH:MM)'),
+                currency: str('ISO 4217 currency code, e.g. EUR'),
+                items: lineItems('Purchased items', {
+                    unit_price: num('Price per unit'),
+                    total_price: num('Price for this line'),
+                }),
+                subtotal: num('Total before VAT, if printed'),
+                total_vat: num('Total VAT amount'),
+                total_amount: num('Total paid'),
+                payment_method: {
+                    type: 'string',
+                    enum: ['cash', 'debit_card', 'credit_card', 'mobile', 'voucher', 'other'],
+                    description: 'How the receipt was paid',
+                },
+            },
+            required: ['merchant_name', 'date', 'total_amount'],
+        },
+    },
+    purchaseOrder: {
+        name: 'Purchase Order',
+        description: 'Buyer, supplier, order numbers, delivery details and ordered lines',
+        extractionPrompt: `Extract the purchase order data. ${COMMON_PROMPT_RULES}`,
+        schema: {
+            type: 'object',
+            properties: {
+                order_number: str('Purchase order number'),
+                order_date: date('Order date'),
+                requested_delivery_date: date('Requested delivery date'),
+                buyer: party('Party that places the order'),
+                supplier: party('Party that receives the order'),
+                delivery_address: address('Address the goods must be delivered to'),
+                currency: str('ISO 4217 currency code, e.g. EUR'),
+                line_items: lineItems('Ordered lines', {
+                    unit_price: num('Agreed price per unit'),
+                    line_total: num('Line total'),
+                }),
+                total_amount: num('Order total'),
+                payment_terms: str('Payment terms, e.g. 30 days net'),
+                delivery_terms: str('Delivery terms or Incoterms'),
+            },
+            required: ['order_number', 'order_date', 'line_items'],
+        },
+    },
+    bankStatement: {
+        name: 'Bank Statement',
+        description: 'Account, period, balances and every transaction',
+        extractionPrompt: `Extract the bank statement data. ${COMMON_PROMPT_RULES} Return debits as negative amounts and credits as positive amounts. Include every transaction in statement order.`,
+        schema: {
+            type: 'object',
+            properties: {
+                bank_name: str('Name of the bank'),
+                account_holder: str('Name of the account holder'),
+                iban: str('IBAN of the account'),
+                statement_number: str('Statement number'),
+                period_start: date('First day of the statement period'),
+                period_end: date('Last day of the statement period'),
+                currency: str('ISO 4217 currency code, e.g. EUR'),
+                opening_balance: num('Balance at the start of the period'),
+                closing_balance: num('Balance at the end of the period'),
+                transactions: {
+                    type: 'array',
+                    description: 'Transactions in statement order',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            booking_date: date('Booking date'),
+                            value_date: date('Value date'),
+                            description: str('Transaction description as printed'),
+                            counterparty_name: str('Name of the counterparty'),
+                            counterparty_iban: str('IBAN of the counterparty'),
+                            reference: str('Payment reference'),
+                            amount: num('Amount; negative for debits, positive for credits'),
+                            balance_after: num('Balance after the transaction, if printed'),
+                        },
+                        required: ['booking_date', 'amount'],
+                    },
+                },
+            },
+            required: ['iban', 'transactions'],
+        },
+    },
+    idCard: {
+        name: 'ID Card / Passport',
+        description: 'Identity document holder details, document number, validity and MRZ',
+        extractionPrompt: `Extract the identity document data. ${COMMON_PROMPT_RULES} Copy the machine readable zone line by line without spaces.`,
+        schema: {
+            type: 'object',
+            properties: {
+                document_type: {
+                    type: 'string',
+                    enum: ['id_card', 'passport', 'driving_licence', 'residence_permit', 'other'],
+                    description: 'Type of identity document',
+                },
+                issuing_country: str('ISO 3166-1 alpha-3 code of the issuing country'),
+                document_number: str('Document number'),
+                surname: str('Surname(s)'),
+                given_names: str('Given name(s)'),
+                nationality: str('Nationality'),
+                date_of_birth: date('Date of birth'),
+                place_of_birth: str('Place of birth'),
+                sex: { type: 'string', enum: ['M', 'F', 'X'], description: 'Sex as printed' },
+                personal_number: str('Personal or national identification number'),
+                date_of_issue: date('Date of issue'),
+                date_of_expiry: date('Date of expiry'),
+                issuing_authority: str('Issuing authority'),
+                mrz: { type: 'array', description: 'Machine readable zone lines', items: { type: 'string' } },
+            },
+            required: ['document_type', 'document_number', 'surname', 'date_of_expiry'],
+        },
+    },
+    deliveryNote: {
+        name: 'Delivery Note',
+        description: 'Shipper, recipient, order references, delivered lines and signatures',
+        extractionPrompt: `Extract the delivery note data. ${COMMON_PROMPT_RULES} Report delivered quantities, not ordered quantities, unless only one is printed.`,
+        schema: {
+            type: 'object',
+            properties: {
+                delivery_note_number: str('Delivery note or packing slip number'),
+                delivery_date: date('Delivery date'),
+                order_number: str('Related purchase or sales order number'),
+                shipper: party('Party that ships the goods'),
+                recipient: party('Party that receives the goods'),
+                delivery_address: address('Address the goods were delivered to'),
+                carrier: str('Carrier or transport company'),
+                tracking_number: str('Tracking or consignment number'),
+                line_items: lineItems('Delivered lines', {
+                    ordered_quantity: num('Ordered quantity, if printed'),
+                    delivered_quantity: num('Delivered quantity'),
+                    batch_number: str('Batch or lot number'),
+                }),
+                number_of_packages: { type: 'integer', description: 'Number of packages or pallets' },
+                total_weight_kg: num('Total weight in kilograms'),
+                signed_for_receipt: { type: 'boolean', description: 'Whether the note is signed for receipt' },
+                remarks: str('Remarks about the delivery'),
+            },
+            required: ['delivery_note_number', 'line_items'],
+        },
+    },
+    pageZones: {
+        name: 'Page Zones (Layout)',
+        description: 'Verbatim text blocks, tables and images per page with their position, plus a document summary',
+        extractionPrompt: '',
+        schema: PAGE_ZONES_SCHEMA,
+    },
+};
+
+// Presets are shared module state, so callers always get their own copy
+export const getPresetSchema = (preset: DocumentPreset): JsonSchema => {
+    const definition = DOCUMENT_PRESETS[preset];
+    if (!definition) {
+        throw new Error(`Unknown document type preset: ${preset}`);
+    }
+    return JSON.parse(JSON.stringify(definition.schema)) as JsonSchema;
+};
+
+export const getPresetExtractionPrompt = (preset: DocumentPreset): string | undefined =>
+    DOCUMENT_PRESETS[preset]?.extractionPrompt || undefined;
@@ -0,0 +1,138 @@
+/**
+ * Minimal JSON Schema validator for extraction results.
+ *
+ * Covers the keywords used in structured-output schemas: type (including arrays of types and
+ * `nullable`), enum, const, properties, required, additionalProperties, items, min/max items,
+ * min/max length, minimum/maximum, pattern, anyOf and oneOf. Unknown keywords are ignored.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+export interface SchemaValidationError {
+    path: string;
+    message: string;
+    // Set when the error belongs to a page-by-page extraction
+    pageNumber?: number;
+}
+
+const typeOf = (value: unknown): string => {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+    return typeof value;
+};
+
+const matchesType = (value: unknown, type: string): boolean => {
+    const actual = typeOf(value);
+    if (type === 'number') return actual === 'number' || actual === 'integer';
+    return actual === type;
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const validateNode = (value: unknown, schema: JsonSchema, path: string, errors: SchemaValidationError[]): void => {
+    if (!schema || typeof schema !== 'object') return;
+
+    const pointer = path || '/';
+    const types = schema.type === undefined
+        ? []
+        : (Array.isArray(schema.type) ? [...schema.type] : [schema.type]) as string[];
+    if (schema.nullable === true && types.length > 0) {
+        types.push('null');
+    }
+
+    if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+        errors.push({ path: pointer, message: `must be ${types.join(' or ')}, got ${typeOf(value)}` });
+        return;
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some((option) => isEqual(option, value))) {
+        errors.push({ path: pointer, message: `must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}` });
+    }
+    if (schema.const !== undefined && !isEqual(schema.const, value)) {
+        errors.push({ path: pointer, message: `must be ${JSON.stringify(schema.const)}` });
+    }
+
+    if (Array.isArray(schema.anyOf)) {
+        const matches = (schema.anyOf as JsonSchema[]).some((option) => validateSchema(value, option).length === 0);
+        if (!matches) errors.push({ path: pointer, message: 'must match at least one schema in anyOf' });
+    }
+    if (Array.isArray(schema.oneOf)) {
+        const matchCount = (schema.oneOf as JsonSchema[]).filter((option) => validateSchema(value, option).length === 0).length;
+        if (matchCount !== 1) errors.push({ path: pointer, message: 'must match exactly one schema in oneOf' });
+    }
+
+    if (typeof value === 'string') {
+        if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+            errors.push({ path: pointer, message: `must have at least ${schema.minLength} characters` });
+        }
+        if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+            errors.push({ path: pointer, message: `must have at most ${schema.maxLength} characters` });
+        }
+        if (typeof schema.pattern === 'string') {
+            try {
+                if (!new RegExp(schema.pattern).test(value)) {
+                    errors.push({ path: pointer, message: `must match pattern ${schema.pattern}` });
+                }
+            } catch {
+                // An invalid pattern in the schema is not the extraction's fault
+            }
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (typeof schema.minimum === 'number' && value < schema.minimum) {
+            errors.push({ path: pointer, message: `must be >= ${schema.minimum}` });
+        }
+        if (typeof schema.maximum === 'number' && value > schema.maximum) {
+            errors.push({ path: pointer, message: `must be <= ${schema.maximum}` });
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+            errors.push({ path: pointer, message: `must have at least ${schema.minItems} items` });
+        }
+        if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+            errors.push({ path: pointer, message: `must have at most ${schema.maxItems} items` });
+        }
+        if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+            value.forEach((entry, index) => validateNode(entry, schema.items as JsonSchema, `${path}/${index}`, errors));
+        }
+    }
+
+    if (typeOf(value) === 'object') {
+        const record = value as Record<string, unknown>;
+        const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+
+        if (Array.isArray(schema.required)) {
+            for (const key of schema.required as string[]) {
+                if (record[key] === undefined) {
+                    errors.push({ path: `${path}/${key}`, message: 'is required' });
+                }
+            }
+        }
+
+        for (const [key, entry] of Object.entries(record)) {
+            if (properties[key]) {
+                validateNode(entry, properties[key], `${path}/${key}`, errors);
+            } else if (schema.additionalProperties === false) {
+                errors.push({ path: `${path}/${key}`, message: 'is not allowed by the schema' });
+            } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+                validateNode(entry, schema.additionalProperties as JsonSchema, `${path}/${key}`, errors);
+            }
+        }
+    }
+};
+
+/**
+ * Validates `value` against `schema` and returns every error found (empty when valid).
+ */
+export const validateSchema = (value: unknown, schema: JsonSchema): SchemaValidationError[] => {
+    const errors: SchemaValidationError[] = [];
+    validateNode(value, schema, '', errors);
+    return errors;
+};
+
+export const formatValidationErrors = (errors: SchemaValidationError[]): string[] =>
+    errors.map((error) => `${error.pageNumber !== undefined ? `page ${error.pageNumber}: ` : ''}${error.path} ${error.message}`);
@@ -0,0 +1,263 @@
+import * as XLSX from 'xlsx';
+
+/**
+ * Turns extracted records into spreadsheet tables for the Export Spreadsheet option.
+ *
+ * Nested objects become dot-separated columns (`customer.address.city`). Arrays of objects, such as
+ * line items, either get a sheet of their own or are spread over extra rows of the main table.
+ * Columns follow the schema's property order; keys that are not in the schema come last.
+ */
+
+export type SpreadsheetFormat = 'xlsx' | 'csv';
+
+export type ArrayHandling = 'sheets' | 'rows';
+
+export const SPREADSHEET_MIME_TYPES: Record<SpreadsheetFormat, string> = {
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    csv: 'text/csv',
+};
+
+export interface ExportRecord {
+    fileName: string;
+    // Null for document-level extractions
+    pageNumber: number | null;
+    data: unknown;
+}
+
+export interface SpreadsheetTable {
+    name: string;
+    columns: string[];
+    rows: CellValue[][];
+}
+
+type CellValue = string | number | boolean | null;
+
+type JsonSchema = Record<string, unknown>;
+
+interface FlatRecord {
+    cells: Map<string, CellValue>;
+    arrays: Map<string, Record<string, unknown>[]>;
+}
+
+const MAIN_TABLE_NAME = 'Extracted Data';
+const SOURCE_FILE_COLUMN = 'Source File';
+const PAGE_COLUMN = 'Page';
+const RECORD_COLUMN = 'Record';
+const ITEM_COLUMN = 'Item';
+// Excel limit for sheet names
+const MAX_SHEET_NAME_LENGTH = 31;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const hasType = (schema: JsonSchema | undefined, type: string): boolean =>
+    schema?.type === type || (Array.isArray(schema?.type) && (schema?.type as unknown[]).includes(type));
+
+const getProperties = (schema: JsonSchema | undefined): Record<string, JsonSchema> | undefined =>
+    isPlainObject(schema?.properties) ? schema?.properties as Record<string, JsonSchema> : undefined;
+
+// Items schema of an array of objects, or undefined for any other schema
+const getObjectItemsSchema = (schema: JsonSchema | undefined): JsonSchema | undefined => {
+    const items = isPlainObject(schema?.items) ? schema?.items as JsonSchema : undefined;
+    return hasType(schema, 'array') && getProperties(items) ? items : undefined;
+};
+
+const isObjectArray = (value: unknown): value is Record<string, unknown>[] =>
+    Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+
+const toCellValue = (value: unknown): CellValue => {
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+    if (Array.isArray(value) && value.every((entry) => !entry || typeof entry !== 'object')) {
+        return value.filter((entry) => entry !== null && entry !== undefined).join('; ');
+    }
+    return JSON.stringify(value);
+};
+
+const joinPath = (prefix: string, key: string): string => (prefix ? `${prefix}.${key}` : key);
+
+// Columns and array paths the schema defines, in property order
+const getSchemaLayout = (
+    schema: JsonSchema | undefined,
+    splitArrays: boolean,
+    prefix = '',
+    layout: { columns: string[]; arrays: string[] } = { columns: [], arrays: [] },
+): { columns: string[]; arrays: string[] } => {
+    for (const [key, property] of Object.entries(getProperties(schema) ?? {})) {
+        const path = joinPath(prefix, key);
+        if (getProperties(property) && !hasType(property, 'array')) {
+            getSchemaLayout(property, splitArrays, path, layout);
+        } else if (splitArrays && getObjectItemsSchema(property)) {
+            layout.arrays.push(path);
+        } else {
+            layout.columns.push(path);
+        }
+    }
+    return layout;
+};
+
+// Looks up the schema of a dot-separated path, stepping into array items where needed
+const getSchemaAtPath = (schema: JsonSchema | undefined, path: string): JsonSchema | undefined => {
+    let current = schema;
+    for (const key of path.split('.')) {
+        current = getProperties(current)?.[key];
+        current = getObjectItemsSchema(current) ?? current;
+    }
+    return current;
+};
+
+const flattenValue = (
+    value: Record<string, unknown>,
+    schema: JsonSchema | undefined,
+    splitArrays: boolean,
+    prefix = '',
+    flat: FlatRecord = { cells: new Map(), arrays: new Map() },
+): FlatRecord => {
+    const properties = getProperties(schema) ?? {};
+    const keys = [...Object.keys(properties), ...Object.keys(value).filter((key) => !(key in properties))];
+
+    for (const key of keys) {
+        if (!(key in value)) continue;
+        const child = value[key];
+        const path = joinPath(prefix, key);
+        if (isPlainObject(child)) {
+            flattenValue(child, properties[key], splitArrays, path, flat);
+        } else if (splitArrays && (isObjectArray(child) || getObjectItemsSchema(properties[key]))) {
+            flat.arrays.set(path, Array.isArray(child) ? child.filter(isPlainObject) : []);
+        } else {
+            flat.cells.set(path, toCellValue(child));
+        }
+    }
+    return flat;
+};
+
+const flattenRecord = (data: unknown, schema: JsonSchema | undefined, splitArrays: boolean): FlatRecord => {
+    if (isPlainObject(data)) {
+        return flattenValue(data, schema, splitArrays);
+    }
+    // Non-object extractions (e.g. a bare string) get a single column
+    return { cells: new Map([['value', toCellValue(data)]]), arrays: new Map() };
+};
+
+// Schema order first, then any other keys in the order they were first seen
+const mergeColumns = (schemaColumns: string[], seen: Iterable<string>): string[] => {
+    const columns = [...schemaColumns];
+    for (const column of seen) {
+        if (!columns.includes(column)) columns.push(column);
+    }
+    return columns;
+};
+
+const toSheetName = (name: string, usedNames: Set<string>): string => {
+    const base = name.replace(/[[\]:*?/\\]/g, '_').slice(0, MAX_SHEET_NAME_LENGTH) || 'Sheet';
+    let candidate = base;
+    for (let suffix = 2; usedNames.has(candidate.toLowerCase()); suffix++) {
+        candidate = `${base.slice(0, MAX_SHEET_NAME_LENGTH - String(suffix).length - 1)}_${suffix}`;
+    }
+    usedNames.add(candidate.toLowerCase());
+    return candidate;
+};
+
+/**
+ * Builds the tables for the given records. With `sheets` the main table has one row per record and
+ * every array of objects gets its own table, linked by the Record column. With `rows` there is a
+ * single table; a record with arrays takes one row per array item, repeating its other columns.
+ */
+export const buildSpreadsheetTables = (
+    records: ExportRecord[],
+    schema: JsonSchema | undefined,
+    arrayHandling: ArrayHandling,
+): SpreadsheetTable[] => {
+    const layout = getSchemaLayout(schema, true);
+    const flatRecords = records.map((record) => flattenRecord(record.data, schema, true));
+    const arrayPaths = mergeColumns(layout.arrays, flatRecords.flatMap((flat) => [...flat.arrays.keys()]));
+    const columns = mergeColumns(layout.columns, flatRecords.flatMap((flat) => [...flat.cells.keys()]));
+
+    const itemColumnsByPath = new Map<string, string[]>();
+    for (const arrayPath of arrayPaths) {
+        const itemSchema = getSchemaAtPath(schema, arrayPath);
+        const items = flatRecords.flatMap((flat) => flat.arrays.get(arrayPath) ?? []);
+        itemColumnsByPath.set(arrayPath, mergeColumns(
+            getSchemaLayout(itemSchema, false).columns,
+            items.flatMap((item) => [...flattenValue(item, itemSchema, false).cells.keys()]),
+        ));
+    }
+
+    if (arrayHandling === 'rows') {
+        const itemColumns = arrayPaths.flatMap((arrayPath) =>
+            (itemColumnsByPath.get(arrayPath) ?? []).map((column) => joinPath(arrayPath, column)));
+        const rows: CellValue[][] = [];
+        records.forEach((record, index) => {
+            const flat = flatRecords[index];
+            const itemRows = Math.max(1, ...arrayPaths.map((arrayPath) => flat.arrays.get(arrayPath)?.length ?? 0));
+            for (let itemIndex = 0; itemIndex < itemRows; itemIndex++) {
+                const itemCells = arrayPaths.flatMap((arrayPath) => {
+                    const item = flat.arrays.get(arrayPath)?.[itemIndex];
+                    const cells = item ? flattenValue(item, getSchemaAtPath(schema, arrayPath), false).cells : undefined;
+                    return (itemColumnsByPath.get(arrayPath) ?? []).map((column) => cells?.get(column) ?? null);
+                });
+                rows.push([
+                    record.fileName,
+                    record.pageNumber,
+                    ...columns.map((column) => flat.cells.get(column) ?? null),
+                    ...itemCells,
+                ]);
+            }
+        });
+        return [{ name: MAIN_TABLE_NAME, columns: [SOURCE_FILE_COLUMN, PAGE_COLUMN, ...columns, ...itemColumns], rows }];
+    }
+
+    const tables: SpreadsheetTable[] = [{
+        name: MAIN_TABLE_NAME,
+        columns: [RECORD_COLUMN, SOURCE_FILE_COLUMN, PAGE_COLUMN, ...columns],
+        rows: records.map((record, index) => [
+            index + 1,
+            record.fileName,
+            record.pageNumber,
+            ...columns.map((column) => flatRecords[index].cells.get(column) ?? null),
+        ]),
+    }];
+
+    for (const arrayPath of arrayPaths) {
+        const itemSchema = getSchemaAtPath(schema, arrayPath);
+        const itemColumns = itemColumnsByPath.get(arrayPath) ?? [];
+        const rows: CellValue[][] = [];
+        records.forEach((record, index) => {
+            (flatRecords[index].arrays.get(arrayPath) ?? []).forEach((item, itemIndex) => {
+                const cells = flattenValue(item, itemSchema, false).cells;
+                rows.push([
+                    index + 1,
+                    record.fileName,
+                    record.pageNumber,
+                    itemIndex + 1,
+                    ...itemColumns.map((column) => cells.get(column) ?? null),
+                ]);
+            });
+        });
+        tables.push({
+            name: arrayPath,
+            columns: [RECORD_COLUMN, SOURCE_FILE_COLUMN, PAGE_COLUMN, ITEM_COLUMN, ...itemColumns],
+            rows,
+        });
+    }
+
+    return tables;
+};
+
+/**
+ * Writes the tables as an XLSX workbook (one sheet per table) or, for CSV, the first table only.
+ */
+export const writeSpreadsheet = (tables: SpreadsheetTable[], format: SpreadsheetFormat): Buffer => {
+    const sheets = tables.map((table) => XLSX.utils.aoa_to_sheet([table.columns, ...table.rows]));
+
+    if (format === 'csv') {
+        return Buffer.from(XLSX.utils.sheet_to_csv(sheets[0]), 'utf8');
+    }
+
+    const workbook = XLSX.utils.book_new();
+    const usedNames = new Set<string>();
+    tables.forEach((table, index) => {
+        XLSX.utils.book_append_sheet(workbook, sheets[index], toSheetName(table.name, usedNames));
+    });
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+};